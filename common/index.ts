@@ -1,2 +1,4 @@
 export const PLUGIN_ID = 'monitoring';
 export const PLUGIN_NAME = 'Monitoring';
+
+export { ClusterHealth, ClusterStats, ClusterNode, ShardRecovery } from './types';
@@ -0,0 +1,125 @@
+/**
+ * Formatted data shared by the server routes, the public client and the plugin contracts.
+ */
+
+/**
+ * Cluster health (`_cluster/health`)
+ */
+export interface ClusterHealth {
+  cluster_name: string;
+  status: string;
+  number_of_nodes: number;
+  number_of_data_nodes: number;
+  active_primary_shards: number;
+  active_shards: number;
+  relocating_shards: number;
+  initializing_shards: number;
+  unassigned_shards: number;
+  number_of_pending_tasks: number;
+  active_shards_percent_as_number: number;
+}
+
+/**
+ * Cluster statistics (formatted `_cluster/stats`)
+ */
+export interface ClusterStats {
+  cluster_name: string;
+  status: string;
+  version: string[];
+  uptime: number;
+  nodes: {
+    total: number;
+    cluster_manager: number;
+    coordinating_only: number;
+    data: number;
+    ingest: number;
+    master: number;
+    remote_cluster_client: number;
+    search: number;
+    warm: number;
+  };
+  jvm: {
+    mem: { used: number; total: number; percent: number };
+    threads: number;
+  };
+  fs: {
+    used: number;
+    total: number;
+    percent: number;
+  };
+  indices: {
+    count: number;
+    shards: {
+      total: number;
+      primaries: number;
+      replication: number;
+    };
+    docs: {
+      count: number;
+      deleted: number;
+    };
+    store: {
+      size_in_bytes: number;
+    };
+    segments: {
+      count: number;
+    };
+  };
+}
+
+/**
+ * Stats of a cluster node (formatted `_nodes/stats` and `_nodes/jvm`)
+ */
+export interface ClusterNode {
+  id: string;
+  name: string;
+  host: string;
+  roles: string[];
+  // `node.attr.zone`, null when the node has no zone attribute
+  zone: string | null;
+  // Custom node attributes (`node.attr.*`), such as zone, rack or temp
+  attributes: Record<string, string>;
+  version: string | null;
+  cpu: { percent: number };
+  mem: { total: number; used: number; percent: number };
+  swap: { total: number; used: number; percent: number };
+  fs: { total: number; used: number; percent: number };
+  jvm: {
+    version: string | null;
+    mem: { total: number; used: number; percent: number };
+    gc: {
+      young: { count: number; time: number };
+      old: { count: number; time: number };
+    };
+  };
+  breakers: {
+    [name: string]: { estimated: number; limit: number; percent: number; tripped: number };
+  };
+}
+
+/**
+ * Recovery of a shard (formatted `_recovery`)
+ */
+export interface ShardRecovery {
+  index: string;
+  shard: number;
+  time: number;
+  type: string;
+  stage: string;
+  source_host: string;
+  source_node: string;
+  target_host: string;
+  target_node: string;
+  files: number;
+  files_recovered: number;
+  files_percent: string;
+  files_total: number;
+  bytes: number;
+  bytes_recovered: number;
+  bytes_percent: string;
+  bytes_total: number;
+  bytes_reused: number;
+  translog_recovered: number;
+  translog_percent: string;
+  translog_total: number;
+}
@@ -1,20 +1,22 @@
 import React from 'react';
 import ReactDOM from 'react-dom';
 import { AppMountParameters, CoreStart } from '../../../src/core/public';
-import { AppPluginStartDependencies } from './types';
+import { AppPluginStartDependencies, MonitoringPanel } from './types';
 import { MonitoringApp } from './components/app';
 
 export const renderApp = (
   { notifications, http }: CoreStart,
   { navigation }: AppPluginStartDependencies,
-  { appBasePath, element }: AppMountParameters
+  { element, history }: AppMountParameters,
+  panels: MonitoringPanel[]
 ) => {
   ReactDOM.render(
     <MonitoringApp
-      basename={appBasePath}
+      history={history}
       notifications={notifications}
       http={http}
       navigation={navigation}
+      panels={panels}
     />,
     element
   );
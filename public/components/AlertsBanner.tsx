@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  EuiAccordion,
+  EuiBasicTableColumn,
+  EuiCallOut,
+  EuiHealth,
+  EuiInMemoryTable,
+  EuiSpacer,
+} from '@elastic/eui';
+
+export interface Alert {
+  rule: string;
+  severity: 'warning' | 'danger';
+  target: string;
+  condition: string;
+  value: number | string;
+  fired_at: number;
+  resolved_at?: number;
+}
+
+interface AlertsBannerProps {
+  active: Alert[];
+  history: Alert[];
+}
+
+const historyColumns: EuiBasicTableColumn<Alert>[] = [
+  {
+    field: 'resolved_at',
+    name: 'State',
+    render: (resolvedAt: number | undefined, item: Alert) =>
+      resolvedAt ? (
+        <EuiHealth color='subdued'>Resolved</EuiHealth>
+      ) : (
+        <EuiHealth color={item.severity}>Active</EuiHealth>
+      ),
+  },
+  { field: 'rule', name: 'Rule', sortable: true },
+  { field: 'target', name: 'Target', sortable: true },
+  { field: 'condition', name: 'Condition' },
+  {
+    field: 'fired_at',
+    name: 'Fired',
+    render: (time: number) => new Date(time).toLocaleString(),
+    sortable: true,
+  },
+  {
+    field: 'resolved_at',
+    name: 'Resolved',
+    render: (time: number | undefined) => (time ? new Date(time).toLocaleString() : '-'),
+    sortable: true,
+  },
+];
+
+/**
+ * Banner displaying the active server-side alerts and their recent history
+ */
+export const AlertsBanner: React.FC<AlertsBannerProps> = ({ active, history }) => {
+  if (active.length === 0 && history.length === 0) return null;
+
+  const hasDanger = active.some(alert => alert.severity === 'danger');
+
+  return (
+    <>
+      <EuiCallOut
+        title={
+          active.length > 0
+            ? `${active.length} active alert${active.length !== 1 ? 's' : ''}`
+            : 'No active alerts'
+        }
+        color={active.length === 0 ? 'success' : hasDanger ? 'danger' : 'warning'}
+        iconType={active.length === 0 ? 'check' : 'alert'}
+        size='s'
+      >
+        {active.length > 0 && (
+          <ul>
+            {active.map(alert => (
+              <li key={`${alert.rule}:${alert.target}`}>
+                <strong>{alert.rule}</strong> on {alert.target}: {alert.condition}
+                {` (current value: ${alert.value}, since ${new Date(alert.fired_at).toLocaleString()})`}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {history.length > 0 && (
+          <EuiAccordion id='monitoringAlertsHistory' buttonContent='Recent alerts'>
+            <EuiSpacer size='s' />
+            <EuiInMemoryTable
+              tableCaption='Recent alerts'
+              items={history}
+              columns={historyColumns}
+              pagination={{ pageSizeOptions: [5, 10, 20], initialPageSize: 5 }}
+            />
+          </EuiAccordion>
+        )}
+      </EuiCallOut>
+
+      <EuiSpacer size='l' />
+    </>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import {
+  EuiButton,
+  EuiButtonEmpty,
+  EuiPopover,
+  EuiPopoverTitle,
+  EuiSpacer,
+  EuiSwitch,
+  EuiText,
+} from '@elastic/eui';
+
+import { CoreStart } from '../../../../src/core/public';
+import { PLUGIN_ID } from '../../common';
+
+interface DiagnosticsButtonProps {
+  http: CoreStart['http'];
+  notifications: CoreStart['notifications'];
+  // Query of the selected cluster ({ dataSourceId } or empty for the local cluster)
+  dataSourceQuery: Record<string, string>;
+}
+
+/**
+ * Reads the file name of an attachment response
+ */
+const getFileName = (response: Response): string => {
+  const match = /filename="([^"]+)"/.exec(response.headers.get('content-disposition') ?? '');
+  return match ? match[1] : `${PLUGIN_ID}-diagnostics.tar.gz`;
+};
+
+/**
+ * Downloads an archive of the raw cluster responses, to attach to a support ticket
+ */
+export const DiagnosticsButton: React.FC<DiagnosticsButtonProps> = ({ http, notifications, dataSourceQuery }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [redact, setRedact] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  const downloadBundle = async () => {
+    try {
+      setLoading(true);
+      // The archive is binary: it is fetched directly, as the http service would read it as text
+      const query = new URLSearchParams({ ...dataSourceQuery, redact: String(redact) });
+      const response = await fetch(http.basePath.prepend(`/api/${PLUGIN_ID}/diagnostics?${query}`), {
+        credentials: 'same-origin',
+        headers: { 'osd-xsrf': 'true' },
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || response.statusText);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getFileName(response);
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to download diagnostics',
+        text: err?.message || 'An unexpected error occurred',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <EuiPopover
+      button={
+        <EuiButtonEmpty size='s' iconType='download' onClick={() => setIsOpen(!isOpen)}>
+          Diagnostics
+        </EuiButtonEmpty>
+      }
+      isOpen={isOpen}
+      closePopover={() => setIsOpen(false)}
+      anchorPosition='downRight'
+    >
+      <EuiPopoverTitle>Diagnostics bundle</EuiPopoverTitle>
+      <div style={{ width: '300px' }}>
+        <EuiText size='s'>
+          <p>
+            Raw responses of the cluster APIs used by this page, with the cluster settings, shards and
+            allocation, in a single archive.
+          </p>
+        </EuiText>
+        <EuiSpacer size='m' />
+        <EuiSwitch
+          label='Redact node names and hosts'
+          checked={redact}
+          onChange={() => setRedact(!redact)}
+        />
+        <EuiSpacer size='m' />
+        <EuiButton size='s' fill iconType='download' isLoading={loading} onClick={downloadBundle}>
+          Download diagnostics
+        </EuiButton>
+      </div>
+    </EuiPopover>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import {
+  EuiBasicTableColumn,
+  EuiButtonEmpty,
+  EuiContextMenuItem,
+  EuiContextMenuPanel,
+  EuiPopover,
+} from '@elastic/eui';
+
+import { PLUGIN_ID } from '../../common';
+
+interface ExportButtonProps<T> {
+  // Used in the file name
+  name: string;
+  // Rows to export, already filtered by the table search
+  rows: T[];
+  // Columns of the table, the exported fields are the column fields unless exportFields is given
+  columns: EuiBasicTableColumn<T>[];
+  // Exported fields, for tables whose columns only hold formatted values (such as percentages)
+  exportFields?: string[];
+}
+
+/**
+ * Reads a (possibly dotted) field of a row
+ */
+const getField = (row: any, field: string): any =>
+  field.split('.').reduce((value, key) => (value === null || value === undefined ? value : value[key]), row);
+
+/**
+ * Flattens a value into dotted keys, arrays are joined with ';'
+ */
+const flatten = (value: any, prefix: string, acc: Record<string, any>): Record<string, any> => {
+  if (Array.isArray(value)) {
+    acc[prefix] = value.join(';');
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, nested]) => flatten(nested, `${prefix}.${key}`, acc));
+  } else {
+    acc[prefix] = value;
+  }
+  return acc;
+};
+
+const escapeCsv = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes the rows as CSV, with one column per (flattened) field
+ */
+const toCsv = (rows: any[], fields: string[]): string => {
+  const flatRows = rows.map(row => fields.reduce((acc, field) => flatten(getField(row, field), field, acc), {}));
+  const headers: string[] = [];
+  flatRows.forEach(row => Object.keys(row).forEach(key => {
+    if (!headers.includes(key)) headers.push(key);
+  }));
+
+  return [
+    headers.map(escapeCsv).join(','),
+    ...flatRows.map(row => headers.map(header => escapeCsv(row[header])).join(',')),
+  ].join('\n');
+};
+
+/**
+ * Keeps the column fields of each row, with their raw values
+ */
+const toJson = (rows: any[], fields: string[]): string =>
+  JSON.stringify(
+    rows.map(row => fields.reduce<Record<string, any>>((acc, field) => {
+      acc[field] = getField(row, field);
+      return acc;
+    }, {})),
+    null,
+    2
+  );
+
+const download = (content: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads the filtered rows of a table as CSV or JSON, with raw (unformatted) values
+ */
+export const ExportButton = <T,>({ name, rows, columns, exportFields }: ExportButtonProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const fields = exportFields ?? columns.reduce<string[]>((acc, column) => {
+    const field = (column as { field?: unknown }).field;
+    if (typeof field === 'string' && !acc.includes(field)) acc.push(field);
+    return acc;
+  }, []);
+
+  const exportRows = (format: 'csv' | 'json') => {
+    const fileName = `${PLUGIN_ID}-${name}-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    if (format === 'csv') {
+      download(toCsv(rows, fields), 'text/csv', fileName);
+    } else {
+      download(toJson(rows, fields), 'application/json', fileName);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <EuiPopover
+      button={
+        <EuiButtonEmpty
+          size='s'
+          iconType='exportAction'
+          isDisabled={rows.length === 0}
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          Export
+        </EuiButtonEmpty>
+      }
+      isOpen={isOpen}
+      closePopover={() => setIsOpen(false)}
+      panelPaddingSize='none'
+      anchorPosition='downRight'
+    >
+      <EuiContextMenuPanel
+        size='s'
+        items={[
+          <EuiContextMenuItem key='csv' icon='document' onClick={() => exportRows('csv')}>
+            {`CSV (${rows.length} rows)`}
+          </EuiContextMenuItem>,
+          <EuiContextMenuItem key='json' icon='document' onClick={() => exportRows('json')}>
+            {`JSON (${rows.length} rows)`}
+          </EuiContextMenuItem>,
+        ]}
+      />
+    </EuiPopover>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  EuiBasicTableColumn,
+  EuiHealth,
+  EuiInMemoryTable,
+  EuiLink,
+  EuiProgress,
+  EuiText,
+} from '@elastic/eui';
+
+import { CoreStart } from '../../../../src/core/public';
+import { PLUGIN_ID } from '../../common';
+
+interface FleetCluster {
+  id: string;
+  title: string;
+  cluster_name?: string;
+  status?: string;
+  nodes?: number;
+  unassigned_shards?: number;
+  fs?: { used: number; total: number; percent: number };
+  error: string | null;
+}
+
+interface FleetOverviewProps {
+  http: CoreStart['http'];
+  notifications: CoreStart['notifications'];
+  formatBytes: (bytes: number) => string;
+  getUsageColor: (percent: number) => string;
+  // Opens the detailed view of a cluster (empty id for the local cluster)
+  onSelect: (dataSourceId: string) => void;
+  // Changes whenever the parent refreshes its data
+  refreshKey: string;
+}
+
+/**
+ * Lists every monitored cluster with its health, node count and disk usage
+ */
+export const FleetOverview: React.FC<FleetOverviewProps> = ({
+  http,
+  notifications,
+  formatBytes,
+  getUsageColor,
+  onSelect,
+  refreshKey,
+}) => {
+  const [clusters, setClusters] = useState<FleetCluster[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchFleet = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await http.get(`/api/${PLUGIN_ID}/fleet`);
+      setClusters(res);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch fleet overview',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [http, notifications]);
+
+  useEffect(() => {
+    fetchFleet();
+  }, [fetchFleet, refreshKey]);
+
+  const columns: EuiBasicTableColumn<FleetCluster>[] = [
+    {
+      field: 'title',
+      name: 'Cluster',
+      sortable: true,
+      render: (title: string, item: FleetCluster) => (
+        <EuiLink onClick={() => onSelect(item.id)}>
+          {title}
+          {item.cluster_name && item.cluster_name !== title && (
+            <EuiText size='xs' color='subdued'>{item.cluster_name}</EuiText>
+          )}
+        </EuiLink>
+      ),
+    },
+    {
+      field: 'status',
+      name: 'Status',
+      sortable: true,
+      render: (status: string | undefined, item: FleetCluster) =>
+        item.error ? (
+          <EuiHealth color='danger'>{`Unreachable: ${item.error}`}</EuiHealth>
+        ) : (
+          <EuiHealth color={status === 'green' ? 'success' : status === 'yellow' ? 'warning' : 'danger'}>
+            {status}
+          </EuiHealth>
+        ),
+    },
+    {
+      field: 'nodes',
+      name: 'Nodes',
+      sortable: true,
+      render: (nodes: number | undefined) => nodes ?? '-',
+    },
+    {
+      field: 'unassigned_shards',
+      name: 'Unassigned Shards',
+      sortable: true,
+      render: (count: number | undefined) =>
+        count === undefined ? '-' : <span style={{ color: count > 0 ? '#FF6666' : undefined }}>{count}</span>,
+    },
+    {
+      field: 'fs',
+      name: 'Disk Usage',
+      render: (fs: FleetCluster['fs']) =>
+        fs ? (
+          <div style={{ width: '90%' }}>
+            <EuiProgress
+              value={fs.percent.toFixed(2)}
+              max={100}
+              size='s'
+              valueText={true}
+              label={`${formatBytes(fs.used)} / ${formatBytes(fs.total)}`}
+              color={getUsageColor(fs.percent)}
+            />
+          </div>
+        ) : (
+          '-'
+        ),
+    },
+  ];
+
+  return (
+    <EuiInMemoryTable
+      tableCaption='Monitored clusters'
+      items={clusters}
+      columns={columns}
+      loading={loading}
+      pagination={true}
+      sorting={{
+        sort: {
+          field: 'title',
+          direction: 'asc',
+        },
+      }}
+      search={{
+        box: {
+          incremental: true,
+          placeholder: 'Search...',
+        },
+      }}
+    />
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useMemo } from 'react';
+import { Group } from '@visx/group';
+import { LinePath, Line } from '@visx/shape';
+import { scaleLinear, scaleTime } from '@visx/scale';
+import { Text } from '@visx/text';
+import {
+  EuiFlexGrid,
+  EuiFlexItem,
+  EuiPanel,
+  EuiText,
+  EuiTitle,
+  euiPaletteColorBlind,
+} from '@elastic/eui';
+
+type HistoryMetric = 'cpu' | 'mem' | 'fs' | 'heap';
+
+interface HistoryNodeSample {
+  id: string;
+  name: string;
+  cpu: number;
+  mem: number;
+  fs: number;
+  heap: number;
+}
+
+export interface HistorySample {
+  timestamp: number;
+  cluster: Record<HistoryMetric, number>;
+  nodes: HistoryNodeSample[];
+}
+
+interface HistoryChartsProps {
+  samples: HistorySample[];
+}
+
+interface Point {
+  timestamp: number;
+  value: number;
+}
+
+const metrics: { key: HistoryMetric; label: string }[] = [
+  { key: 'cpu', label: 'CPU' },
+  { key: 'mem', label: 'Memory' },
+  { key: 'fs', label: 'Filesystem' },
+  { key: 'heap', label: 'JVM Heap' },
+];
+
+const CLUSTER_COLOR = '#000';
+
+export const HistoryCharts: React.FC<HistoryChartsProps> = ({ samples }) => {
+  // Constants for spacing
+  const width = 480;
+  const height = 200;
+  const margin = { top: 10, right: 10, bottom: 20, left: 35 };
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+
+  // Collect node names over the whole range (nodes may join or leave)
+  const nodeNames = useMemo(() => {
+    const names = new Set<string>();
+    samples.forEach(s => s.nodes.forEach(n => names.add(n.name)));
+    return Array.from(names).sort();
+  }, [samples]);
+
+  const colors = useMemo(() => {
+    const palette = euiPaletteColorBlind({ rotations: Math.ceil(nodeNames.length / 10) || 1 });
+    return nodeNames.reduce<Record<string, string>>((acc, name, i) => {
+      acc[name] = palette[i % palette.length];
+      return acc;
+    }, {});
+  }, [nodeNames]);
+
+  if (samples.length === 0) {
+    return (
+      <EuiText textAlign="center" color="subdued">
+        <p>No history samples collected yet.</p>
+      </EuiText>
+    );
+  }
+
+  const xScale = scaleTime<number>({
+    domain: [
+      new Date(samples[0].timestamp),
+      new Date(samples[samples.length - 1].timestamp),
+    ],
+    range: [0, innerWidth],
+  });
+  const yScale = scaleLinear<number>({ domain: [0, 100], range: [innerHeight, 0] });
+
+  const seriesFor = (metric: HistoryMetric) => {
+    const nodes: Record<string, Point[]> = {};
+    const cluster: Point[] = [];
+    samples.forEach(s => {
+      cluster.push({ timestamp: s.timestamp, value: s.cluster[metric] });
+      s.nodes.forEach(n => {
+        if (!nodes[n.name]) nodes[n.name] = [];
+        nodes[n.name].push({ timestamp: s.timestamp, value: n[metric] });
+      });
+    });
+    return { nodes, cluster };
+  };
+
+  const renderChart = (metric: HistoryMetric) => {
+    const { nodes, cluster } = seriesFor(metric);
+
+    return (
+      <svg width={width} height={height}>
+        <Group left={margin.left} top={margin.top}>
+          {/* Horizontal grid with percentage labels */}
+          {[0, 25, 50, 75, 100].map(tick => (
+            <Group key={tick}>
+              <Line
+                from={{ x: 0, y: yScale(tick) }}
+                to={{ x: innerWidth, y: yScale(tick) }}
+                stroke='#d3dae6'
+                strokeWidth={1}
+              />
+              <Text x={-5} y={yScale(tick)} fontSize={10} textAnchor='end' verticalAnchor='middle' fill='#666'>
+                {`${tick}%`}
+              </Text>
+            </Group>
+          ))}
+
+          {/* Time range labels */}
+          <Text x={0} y={innerHeight + 15} fontSize={10} fill='#666'>
+            {new Date(samples[0].timestamp).toLocaleTimeString()}
+          </Text>
+          <Text x={innerWidth} y={innerHeight + 15} fontSize={10} textAnchor='end' fill='#666'>
+            {new Date(samples[samples.length - 1].timestamp).toLocaleTimeString()}
+          </Text>
+
+          {/* One line per node */}
+          {Object.entries(nodes).map(([name, points]) => (
+            <LinePath<Point>
+              key={name}
+              data={points}
+              x={p => xScale(new Date(p.timestamp))}
+              y={p => yScale(p.value)}
+              stroke={colors[name]}
+              strokeWidth={1.5}
+              strokeOpacity={0.8}
+            />
+          ))}
+
+          {/* Cluster-wide line on top */}
+          <LinePath<Point>
+            data={cluster}
+            x={p => xScale(new Date(p.timestamp))}
+            y={p => yScale(p.value)}
+            stroke={CLUSTER_COLOR}
+            strokeWidth={2.5}
+            strokeDasharray='6,3'
+          />
+        </Group>
+      </svg>
+    );
+  };
+
+  return (
+    <>
+      <EuiFlexGrid columns={2}>
+        {metrics.map(({ key, label }) => (
+          <EuiFlexItem key={key}>
+            <EuiPanel paddingSize='s' hasShadow={false} hasBorder>
+              <EuiTitle size='xs'>
+                <h3>{label}</h3>
+              </EuiTitle>
+              {renderChart(key)}
+            </EuiPanel>
+          </EuiFlexItem>
+        ))}
+      </EuiFlexGrid>
+
+      {/* Legend */}
+      <EuiText size='xs'>
+        <p>
+          <span style={{ marginRight: '12px' }}>
+            <span style={{ borderTop: `3px dashed ${CLUSTER_COLOR}`, display: 'inline-block', width: '16px', marginRight: '4px' }} />
+            Cluster
+          </span>
+          {nodeNames.map(name => (
+            <span key={name} style={{ marginRight: '12px', whiteSpace: 'nowrap' }}>
+              <span style={{ borderTop: `3px solid ${colors[name]}`, display: 'inline-block', width: '16px', marginRight: '4px' }} />
+              {name}
+            </span>
+          ))}
+        </p>
+      </EuiText>
+    </>
+  );
+};
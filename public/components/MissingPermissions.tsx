@@ -0,0 +1,22 @@
+import React from 'react';
+import { EuiCallOut } from '@elastic/eui';
+
+interface MissingPermissionsProps {
+  permissions: string[];
+}
+
+/**
+ * Explains why a panel is unavailable to the current user
+ */
+export const MissingPermissions: React.FC<MissingPermissionsProps> = ({ permissions }) => (
+  <EuiCallOut size='s' color='warning' iconType='lock' title='This panel is unavailable'>
+    <p>Your user is missing the following cluster permissions:</p>
+    <ul>
+      {permissions.map(permission => (
+        <li key={permission}>
+          <code>{permission}</code>
+        </li>
+      ))}
+    </ul>
+  </EuiCallOut>
+);
@@ -1,181 +1,750 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiLink,
+  EuiPanel,
+  EuiText,
+} from '@elastic/eui';
 import { Group } from '@visx/group';
 import { Text } from '@visx/text';
 
+import { ShardRecovery } from '../../common';
+
 interface Node {
   id: string;
   name: string;
   host: string;
   roles: string[];
   zone: string | null;
+  attributes?: Record<string, string>;
+  version?: string | null;
+  cpu?: { percent: number };
+  mem?: { percent: number };
+  fs?: { percent: number };
+  jvm?: { mem: { percent: number } };
+}
+
+/**
+ * Node configured in `monitoring.nodes` but not part of the cluster
+ */
+interface MissingNode {
+  name: string;
+  roles: string[] | null;
+  zone: string | null;
+  host: string | null;
+}
+
+export type GraphMetric = 'none' | 'cpu' | 'mem' | 'fs' | 'heap';
+
+/**
+ * Metrics the host entries can be colored by
+ */
+export const GRAPH_METRICS: Record<GraphMetric, { label: string; value: (node: Node) => number | undefined }> = {
+  none: { label: 'None', value: () => undefined },
+  cpu: { label: 'CPU', value: node => node.cpu?.percent },
+  mem: { label: 'Memory', value: node => node.mem?.percent },
+  fs: { label: 'Disk', value: node => node.fs?.percent },
+  heap: { label: 'Heap', value: node => node.jvm?.mem.percent },
+};
+
+export interface Shard {
+  index: string;
+  shard: number;
+  primary: boolean;
+  state: string;
+  node: string | null;
+  relocating_node: string | null;
 }
 
 interface NetworkGraphProps {
   nodes: Node[];
+  // When provided, the shards held by each data node are drawn below its host name
+  shards?: Shard[];
+  // Warnings by node name (e.g. configuration drift), flagged on the host label
+  warnings?: Record<string, string[]>;
+  // When provided, in-flight recoveries are drawn as arrows from their source to their target node
+  recoveries?: ShardRecovery[];
+  // Node attributes grouping the hosts, outermost first (e.g. rack, then temp), before their roles
+  groupBy?: string[];
+  // Configured nodes missing from the cluster, drawn as ghost entries in their zone
+  missingNodes?: MissingNode[];
+  // Metric coloring the host entries, using getUsageColor
+  metric?: GraphMetric;
+  getUsageColor?: (percent: number) => string;
+  // Name of the selected node: other hosts are dimmed
+  selectedNode?: string | null;
+  onSelectNode?: (name: string | null) => void;
+  // When provided, the selected node links to its page
+  getNodeLinkProps?: (id: string) => { href: string; onClick: (e: React.MouseEvent) => void };
 }
 
-export const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes }) => {
+/**
+ * Hosts grouped by attribute value at each level, and by role at the last one
+ */
+interface GroupTree {
+  groups: Record<string, GroupTree>;
+  hosts: string[];
+}
+
+/**
+ * Block of the graph: a column, a nested attribute group or a role block
+ */
+interface LayoutBlock {
+  key: string;
+  label: string;
+  depth: number;
+  isRole: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Host entry of a role block, positioned at the left of the block and on the baseline of the label
+ */
+interface LayoutHost {
+  key: string;
+  name: string;
+  role: string;
+  x: number;
+  y: number;
+  height: number;
+}
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const SHARD_COLORS = {
+  primary: '#006BB4',
+  replica: '#54B399',
+  relocating: '#F5A700',
+  initializing: '#DD0A73',
+};
+
+export const RECOVERY_EDGE_COLOR = '#9170B8';
+
+/**
+ * Returns whether shards should be drawn in the block of the given role
+ */
+const holdsShards = (role: string) => role === 'data' || role.startsWith('data_') || role === 'search';
+
+// Label of the nodes without a value for a grouping attribute
+const NO_ATTRIBUTE_VALUE = '(none)';
+
+/**
+ * Returns the value of a grouping attribute for a node. Without any attribute, all nodes share one column.
+ */
+const getAttributeValue = (node: Pick<Node, 'zone' | 'attributes'>, attribute: string | null) => {
+  if (attribute === null) return 'All nodes';
+  const value = node.attributes?.[attribute] ?? (attribute === 'zone' ? node.zone : null);
+  return value?.trim() || NO_ATTRIBUTE_VALUE;
+};
+
+const DEFAULT_GROUP_BY = ['zone'];
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+const MAX_VIEWPORT_HEIGHT = 640;
+
+export const NetworkGraph: React.FC<NetworkGraphProps> = ({
+  nodes,
+  shards,
+  recoveries = [],
+  groupBy = DEFAULT_GROUP_BY,
+  warnings = {},
+  missingNodes = [],
+  metric = 'none',
+  getUsageColor,
+  selectedNode = null,
+  onSelectNode,
+  getNodeLinkProps,
+}) => {
   // Constants for spacing
-  const zoneMargin = 40;
+  const columnMargin = 40;
   const roleMargin = 20;
   const padding = 10;
   const hostSpacing = 18;
   const roleTitleHeight = 20;
   const rolePadding = 10;
+  const shardCellSize = 8;
+  const shardCellGap = 2;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Unique per graph, as markers are looked up by id in the whole page
+  const markerId = useMemo(() => `recoveryArrow-${Math.random().toString(36).slice(2)}`, []);
+  const [view, setView] = useState<View>({ x: 0, y: 0, scale: 1 });
+  const [hovered, setHovered] = useState<{ name: string; x: number; y: number } | null>(null);
+  // Drag in progress, and whether the pointer moved since the button was pressed (a drag is not a click)
+  const dragRef = useRef<{ clientX: number; clientY: number; x: number; y: number } | null>(null);
+  const movedRef = useRef(false);
+
+  const missingByName = useMemo(
+    () => missingNodes.reduce<Record<string, MissingNode>>((acc, missing) => ({ ...acc, [missing.name]: missing }), {}),
+    [missingNodes]
+  );
 
-  // Group nodes by zone and then role
-  const zoneMap = useMemo(() => {
-    const map: Record<string, Record<string, string[]>> = {};
-    nodes.forEach(n => {
-      const zone = (n.zone || 'default').trim();
-      if (!map[zone]) map[zone] = {};
-      n.roles.forEach(roleRaw => {
-        const role = roleRaw.trim();
-        if (!map[zone][role]) map[zone][role] = [];
-        map[zone][role].push(n.name);
+  // Grouping levels of the graph: one column per value of the first attribute, a single column without any
+  const levels = useMemo<(string | null)[]>(() => (groupBy.length > 0 ? groupBy : [null]), [groupBy]);
+
+  // Group nodes by the values of the grouping attributes and then by role
+  const tree = useMemo(() => {
+    const root: GroupTree = { groups: {}, hosts: [] };
+    const add = (name: string, values: string[], roles: string[]) => {
+      roles.forEach(roleRaw => {
+        const leaf = [...values, roleRaw.trim()].reduce((group, value) => {
+          if (!group.groups[value]) group.groups[value] = { groups: {}, hosts: [] };
+          return group.groups[value];
+        }, root);
+        leaf.hosts.push(name);
       });
-    });
+    };
+    nodes.forEach(n => add(n.name, levels.map(attribute => getAttributeValue(n, attribute)), n.roles));
+    // Only the zone of missing nodes is configured. Missing nodes without configured roles get their own block
+    Object.values(missingByName).forEach(missing =>
+      add(
+        missing.name,
+        levels.map(attribute => getAttributeValue({ zone: missing.zone }, attribute)),
+        missing.roles?.length ? missing.roles : ['unknown']
+      )
+    );
     // Sort hosts
-    Object.keys(map).forEach(zone => {
-      Object.keys(map[zone]).forEach(role => {
-        map[zone][role].sort();
-      });
-    });
-    return map;
-  }, [nodes]);
+    const sortHosts = (group: GroupTree) => {
+      group.hosts.sort();
+      Object.values(group.groups).forEach(sortHosts);
+    };
+    sortHosts(root);
+    return root;
+  }, [nodes, missingByName, levels]);
 
-  const zones = Object.keys(zoneMap).sort();
+  const nodesByName = useMemo(
+    () => nodes.reduce<Record<string, Node>>((acc, n) => ({ ...acc, [n.name]: n }), {}),
+    [nodes]
+  );
 
-  // Calculate width per zone
-  const zoneWidth = 220;
-  const totalWidth = zones.length * (zoneWidth + zoneMargin);
+  // Group shards by node name, flagging copies of the same shard sharing a column (e.g. a zone)
+  const shardsByNode = useMemo(() => {
+    const map: Record<string, (Shard & { sameGroup: boolean })[]> = {};
+    if (!shards) return map;
 
-  // Calculate height based on max content
-  const calculatedZoneHeights = zones.map(zone => {
-    const roles = Object.keys(zoneMap[zone]);
-    return roles.reduce((acc, role) => {
-      const hosts = zoneMap[zone][role].length;
-      const blockHeight = roleTitleHeight + rolePadding + hosts * hostSpacing + padding;
-      return acc + blockHeight + roleMargin;
-    }, 40); // extra for zone title
-  });
+    const groupOf = nodes.reduce<Record<string, string>>((acc, n) => {
+      acc[n.name] = getAttributeValue(n, levels[0]);
+      return acc;
+    }, {});
+    const copiesPerGroup: Record<string, number> = {};
+    shards.forEach(shard => {
+      if (!shard.node) return;
+      const key = `${groupOf[shard.node]}/${shard.index}/${shard.shard}`;
+      copiesPerGroup[key] = (copiesPerGroup[key] ?? 0) + 1;
+    });
 
-  const zoneHeightsMap = zones.reduce<Record<string, number>>((acc, zone, i) => {
-    acc[zone] = calculatedZoneHeights[i];
-    return acc;
-  }, {});
+    shards.forEach(shard => {
+      if (!shard.node) return;
+      const key = `${groupOf[shard.node]}/${shard.index}/${shard.shard}`;
+      if (!map[shard.node]) map[shard.node] = [];
+      // Without grouping, every node is in the same column
+      map[shard.node].push({ ...shard, sameGroup: levels[0] !== null && copiesPerGroup[key] > 1 });
+    });
+    // Primaries first, then by index
+    Object.values(map).forEach(list =>
+      list.sort((a, b) => Number(b.primary) - Number(a.primary) || a.index.localeCompare(b.index) || a.shard - b.shard)
+    );
+    return map;
+  }, [shards, nodes, levels]);
 
-  const totalHeight = Math.max(...calculatedZoneHeights);
+  // Calculate width per column, wide enough for the longest host label in the innermost blocks
+  const longestLabel = Math.max(
+    0,
+    ...nodes.map(n => n.name.length),
+    ...Object.keys(missingByName).map(name => `${name} (missing)`.length)
+  );
+  const columnWidth = Math.max(220, Math.ceil(longestLabel * 6.5) + 2 * padding * (levels.length + 1));
+  const roleWidth = columnWidth - 2 * padding * levels.length;
+  const cellsPerRow = Math.floor((roleWidth - 2 * padding) / (shardCellSize + shardCellGap));
 
-  // Position map for lines
-  useMemo(() => {
+  /**
+   * Height taken by a host entry in a role block (name + shard cells if any)
+   */
+  const hostHeight = (hostLabel: string, role: string) => {
+    const count = shards && holdsShards(role) ? (shardsByNode[hostLabel]?.length ?? 0) : 0;
+    const rows = Math.ceil(count / cellsPerRow);
+    return hostSpacing + rows * (shardCellSize + shardCellGap);
+  };
+
+  // Blocks and host entries, with the position of each host for lines
+  const layout = useMemo(() => {
+    const blocks: LayoutBlock[] = [];
+    const hosts: LayoutHost[] = [];
     const positions: Record<string, { x: number; y: number }[]> = {};
-    zones.forEach((zone, zoneIdx) => {
-      const zoneX = zoneIdx * (zoneWidth + zoneMargin);
-      const roles = Object.keys(zoneMap[zone]).sort();
-
-      let roleOffsetY = 40;
-      roles.forEach(role => {
-        const hosts = zoneMap[zone][role];
-        hosts.forEach((hostLabel, hostIdx) => {
-          const x = zoneX + padding + (zoneWidth - 2 * padding) / 2;
-          const y = roleOffsetY + roleTitleHeight + rolePadding + hostIdx * hostSpacing;
+
+    /**
+     * Lays out a group and its children, returning its height. Groups at the last level are role blocks.
+     */
+    const layoutGroup = (group: GroupTree, key: string, value: string, depth: number, x: number, y: number) => {
+      const width = columnWidth - 2 * padding * depth;
+      const block: LayoutBlock = { key, label: '', depth, isRole: depth === levels.length, x, y, width, height: 0 };
+      blocks.push(block);
+
+      if (block.isRole) {
+        block.label = `Role: ${value}`;
+        let hostOffsetY = roleTitleHeight + rolePadding;
+        group.hosts.forEach(hostLabel => {
+          const height = hostHeight(hostLabel, value);
+          hosts.push({ key: `${key}/${hostLabel}`, name: hostLabel, role: value, x, y: y + hostOffsetY, height });
           if (!positions[hostLabel]) positions[hostLabel] = [];
-          positions[hostLabel].push({ x, y });
+          positions[hostLabel].push({ x: x + width / 2, y: y + hostOffsetY });
+          hostOffsetY += height;
         });
-        // Add height for this role block
-        roleOffsetY += roleTitleHeight + rolePadding + hosts.length * hostSpacing + roleMargin;
-      });
+        block.height = hostOffsetY;
+        return block.height;
+      }
+
+      const attribute = levels[depth];
+      block.label = attribute === null ? value : `${attribute}: ${value}`;
+      // Columns have a larger title
+      let offsetY = depth === 0 ? 40 : roleTitleHeight + rolePadding;
+      Object.keys(group.groups)
+        .sort()
+        .forEach(child => {
+          offsetY +=
+            layoutGroup(group.groups[child], `${key}/${child}`, child, depth + 1, x + padding, y + offsetY) +
+            roleMargin;
+        });
+      block.height = depth === 0 ? offsetY : offsetY - roleMargin + padding;
+      return block.height;
+    };
+
+    const columns = Object.keys(tree.groups).sort();
+    const columnHeights = columns.map((column, columnIdx) =>
+      layoutGroup(tree.groups[column], column, column, 0, columnIdx * (columnWidth + columnMargin), 0)
+    );
+
+    return {
+      columns,
+      blocks,
+      hosts,
+      positions,
+      totalWidth: columns.length * (columnWidth + columnMargin),
+      totalHeight: Math.max(0, ...columnHeights),
+    };
+  }, [tree, levels, columnWidth, shardsByNode]);
+
+  const { positions, totalWidth, totalHeight } = layout;
+
+  // Recoveries still copying data between two nodes of the graph (store and snapshot recoveries have no source node)
+  const activeRecoveries = useMemo(
+    () =>
+      recoveries.filter(
+        recovery =>
+          recovery.stage !== 'DONE' && positions[recovery.source_node] && positions[recovery.target_node]
+      ),
+    [recoveries, positions]
+  );
+
+  const viewportHeight = Math.min(totalHeight, MAX_VIEWPORT_HEIGHT);
+
+  /**
+   * Fits the whole graph in the viewport, without enlarging it
+   */
+  const fitView = () => {
+    const width = containerRef.current?.clientWidth ?? totalWidth;
+    const scale = Math.max(MIN_SCALE, Math.min(1, width / totalWidth, viewportHeight / totalHeight));
+    setView({ x: (width - totalWidth * scale) / 2, y: 0, scale });
+  };
+
+  /**
+   * Zooms by the given factor around a point of the viewport (its center by default)
+   */
+  const zoomAt = (factor: number, point?: { x: number; y: number }) => {
+    const center = point ?? {
+      x: (containerRef.current?.clientWidth ?? totalWidth) / 2,
+      y: viewportHeight / 2,
+    };
+    setView(current => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+      return {
+        x: center.x - ((center.x - current.x) * scale) / current.scale,
+        y: center.y - ((center.y - current.y) * scale) / current.scale,
+        scale,
+      };
     });
-    return positions;
-  }, [zoneMap, zones]);
+  };
+
+  // Fit the graph when it first has nodes, and whenever its columns change
+  const columnsKey = layout.columns.join('|');
+  useEffect(() => {
+    if (layout.columns.length > 0) fitView();
+  }, [columnsKey]);
+
+  // Ctrl/Cmd + wheel zooms: the listener is not passive, so that the page does not zoom or scroll instead
+  const zoomAtRef = useRef(zoomAt);
+  zoomAtRef.current = zoomAt;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAtRef.current(e.deltaY < 0 ? 1.1 : 1 / 1.1, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const onMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    dragRef.current = { clientX: e.clientX, clientY: e.clientY, x: view.x, y: view.y };
+    movedRef.current = false;
+  };
+
+  const onMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.clientX;
+    const dy = e.clientY - drag.clientY;
+    if (Math.abs(dx) + Math.abs(dy) > 3) movedRef.current = true;
+    if (movedRef.current) {
+      setHovered(null);
+      setView(current => ({ ...current, x: drag.x + dx, y: drag.y + dy }));
+    }
+  };
+
+  const onMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const onHostMouseMove = (name: string, e: React.MouseEvent) => {
+    if (dragRef.current && movedRef.current) return;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setHovered({ name, x: e.clientX - rect.left + 12, y: e.clientY - rect.top + 12 });
+  };
+
+  const onHostClick = (name: string) => {
+    if (movedRef.current || !onSelectNode) return;
+    onSelectNode(selectedNode === name ? null : name);
+  };
+
+  /**
+   * Renders the stats of the hovered host
+   */
+  const renderTooltip = () => {
+    if (!hovered) return null;
+    const node = nodesByName[hovered.name];
+    const missing = missingByName[hovered.name];
+    if (!node && !missing) return null;
+
+    const formatPercent = (value: number | undefined) => (value === undefined ? '-' : `${value.toFixed(1)}%`);
+    const attributes = Object.entries(node?.attributes ?? {}).map(([key, value]) => `${key}=${value}`);
+    const lines = node
+      ? [
+          `Host: ${node.host}`,
+          `Roles: ${node.roles.join(', ')}`,
+          `Attributes: ${attributes.join(', ') || '-'}`,
+          ...(node.version ? [`Version: ${node.version}`] : []),
+          ...(['cpu', 'mem', 'fs', 'heap'] as GraphMetric[]).map(
+            key => `${GRAPH_METRICS[key].label}: ${formatPercent(GRAPH_METRICS[key].value(node))}`
+          ),
+        ]
+      : [
+          'Configured in monitoring.nodes but not in the cluster',
+          `Host: ${missing.host ?? '-'}`,
+          `Roles: ${missing.roles?.join(', ') ?? '-'}`,
+          `Zone: ${missing.zone ?? '-'}`,
+        ];
+
+    return (
+      <EuiPanel
+        paddingSize='s'
+        style={{ position: 'absolute', left: hovered.x, top: hovered.y, pointerEvents: 'none', zIndex: 1 }}
+      >
+        <EuiText size='xs'>
+          <strong>{hovered.name}</strong>
+          {lines.map(line => (
+            <div key={line}>{line}</div>
+          ))}
+          {(warnings[hovered.name] ?? []).map(warning => (
+            <div key={warning} style={{ color: '#BD271E' }}>{`\u26A0 ${warning}`}</div>
+          ))}
+        </EuiText>
+      </EuiPanel>
+    );
+  };
+
+  /**
+   * Renders the in-flight recoveries as arrows between the closest entries of their source and target nodes,
+   * thicker as more bytes remain to be copied
+   */
+  const renderRecoveryEdges = () => {
+    // Reused files are already on the target and are never copied
+    const remaining = (recovery: ShardRecovery) =>
+      Math.max(0, recovery.bytes_total - recovery.bytes_reused - recovery.bytes_recovered);
+    const maxRemaining = Math.max(1, ...activeRecoveries.map(remaining));
+    const halfEntryWidth = (roleWidth - 8) / 2;
+
+    return activeRecoveries.map(recovery => {
+      const [source, target] = positions[recovery.source_node]
+        .flatMap(from => positions[recovery.target_node].map(to => [from, to]))
+        .reduce((closest, pair) =>
+          Math.hypot(pair[0].x - pair[1].x, pair[0].y - pair[1].y) <
+          Math.hypot(closest[0].x - closest[1].x, closest[0].y - closest[1].y)
+            ? pair
+            : closest
+        );
+      // Host positions are on the label baseline: edges start and end at the middle of the entries
+      const y1 = source.y - 4;
+      const y2 = target.y - 4;
+
+      let path: string;
+      if (source.x === target.x) {
+        // Same column: curve out of the right side of the entries
+        const x = source.x + halfEntryWidth;
+        const bend = x + 30 + Math.abs(y2 - y1) / 4;
+        path = `M ${x} ${y1} Q ${bend} ${(y1 + y2) / 2} ${x} ${y2}`;
+      } else {
+        // Across columns: leave and enter by the facing sides, bending so that opposite edges do not overlap
+        const direction = Math.sign(target.x - source.x);
+        const x1 = source.x + direction * halfEntryWidth;
+        const x2 = target.x - direction * halfEntryWidth;
+        const length = Math.hypot(x2 - x1, y2 - y1);
+        const bend = Math.min(40, length / 5);
+        const cx = (x1 + x2) / 2 + ((y2 - y1) / length) * bend;
+        const cy = (y1 + y2) / 2 - ((x2 - x1) / length) * bend;
+        path = `M ${x1} ${y1} Q ${cx} ${cy} ${x2} ${y2}`;
+      }
+
+      const dimmed =
+        selectedNode && selectedNode !== recovery.source_node && selectedNode !== recovery.target_node;
+
+      return (
+        <g key={`${recovery.index}-${recovery.shard}-${recovery.target_node}`} opacity={dimmed ? 0.2 : 0.85}>
+          <path
+            d={path}
+            fill='none'
+            stroke={RECOVERY_EDGE_COLOR}
+            strokeWidth={1.5 + 4.5 * Math.sqrt(remaining(recovery) / maxRemaining)}
+            markerEnd={`url(#${markerId})`}
+          />
+          {/* Wider invisible stroke, so that thin edges are easy to hover */}
+          <path d={path} fill='none' stroke='transparent' strokeWidth={10}>
+            <title>
+              {`${recovery.index} [${recovery.shard}] ${recovery.type} ${recovery.source_node} -> ` +
+                `${recovery.target_node}: ${recovery.bytes_percent} of bytes (${recovery.stage})`}
+            </title>
+          </path>
+        </g>
+      );
+    });
+  };
+
+  /**
+   * Renders the shard cells of a host, highlighting moving shards and copies in the same column
+   */
+  const renderShardCells = (hostLabel: string, top: number) => {
+    const hostShards = shardsByNode[hostLabel] ?? [];
+    const rowWidth = cellsPerRow * (shardCellSize + shardCellGap) - shardCellGap;
+    const left = (roleWidth - rowWidth) / 2;
+
+    return hostShards.map((shard, i) => {
+      const fill =
+        shard.state === 'RELOCATING'
+          ? SHARD_COLORS.relocating
+          : shard.state === 'INITIALIZING'
+            ? SHARD_COLORS.initializing
+            : shard.primary
+              ? SHARD_COLORS.primary
+              : SHARD_COLORS.replica;
+
+      return (
+        <rect
+          key={`${shard.index}-${shard.shard}-${shard.primary ? 'p' : 'r'}`}
+          x={left + (i % cellsPerRow) * (shardCellSize + shardCellGap)}
+          y={top + Math.floor(i / cellsPerRow) * (shardCellSize + shardCellGap)}
+          width={shardCellSize}
+          height={shardCellSize}
+          fill={fill}
+          stroke={shard.sameGroup ? '#FF0000' : 'none'}
+          strokeWidth={shard.sameGroup ? 1.5 : 0}
+        >
+          <title>
+            {`${shard.index} [${shard.shard}] ${shard.primary ? 'primary' : 'replica'} - ${shard.state}` +
+              (shard.relocating_node ? ` -> ${shard.relocating_node}` : '') +
+              (shard.sameGroup ? ` (another copy is in the same ${levels[0]})` : '')}
+          </title>
+        </rect>
+      );
+    });
+  };
+
+  const selectedId = selectedNode ? nodesByName[selectedNode]?.id : undefined;
 
   return (
-    <svg width={totalWidth} height={totalHeight}>
-      {zones.map((zone, zoneIdx) => {
-        const roles = Object.keys(zoneMap[zone]).sort();
-        const zoneX = zoneIdx * (zoneWidth + zoneMargin);
-
-        let offsetY = 40;
-
-        return (
-          <Group key={zone} left={zoneX}>
-            {/* Zone background */}
-            <rect
-              x={0}
-              y={0}
-              width={zoneWidth}
-              height={zoneHeightsMap[zone]}
-              fill='#ccc'
-              opacity={0.15}
-              stroke='#777'
-              strokeWidth={2}
-              rx={6}
-              ry={6}
-            />
-            {/* Zone title */}
-            <Text
-              x={zoneWidth / 2}
-              y={20}
-              fontWeight='bold'
-              fontSize={16}
-              textAnchor='middle'
-              fill='#000'
+    <>
+      <EuiFlexGroup alignItems='center' gutterSize='s' responsive={false}>
+        <EuiFlexItem grow={false}>
+          <EuiButtonIcon iconType='magnifyWithPlus' aria-label='Zoom in' onClick={() => zoomAt(1.25)} />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonIcon iconType='magnifyWithMinus' aria-label='Zoom out' onClick={() => zoomAt(0.8)} />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonIcon iconType='expand' aria-label='Fit to view' onClick={fitView} />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiText size='xs' color='subdued'>
+            {`${Math.round(view.scale * 100)}% - Ctrl + scroll to zoom, drag to pan, click a host to select it`}
+          </EuiText>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiText size='xs'>
+            <span style={{ color: RECOVERY_EDGE_COLOR, fontWeight: 600 }}>{'\u2192'}</span>
+            {` ${activeRecoveries.length} active ${activeRecoveries.length === 1 ? 'recovery' : 'recoveries'}`}
+          </EuiText>
+        </EuiFlexItem>
+        <EuiFlexItem />
+        {selectedNode && (
+          <>
+            <EuiFlexItem grow={false}>
+              <EuiText size='s'>
+                <strong>{selectedNode}</strong>
+              </EuiText>
+            </EuiFlexItem>
+            {selectedId && getNodeLinkProps && (
+              <EuiFlexItem grow={false}>
+                <EuiLink {...getNodeLinkProps(selectedId)}>Open node page</EuiLink>
+              </EuiFlexItem>
+            )}
+            {onSelectNode && (
+              <EuiFlexItem grow={false}>
+                <EuiButtonEmpty size='xs' iconType='cross' onClick={() => onSelectNode(null)}>
+                  Clear selection
+                </EuiButtonEmpty>
+              </EuiFlexItem>
+            )}
+          </>
+        )}
+      </EuiFlexGroup>
+      <div
+        ref={containerRef}
+        style={{
+          position: 'relative',
+          overflow: 'hidden',
+          height: viewportHeight,
+          cursor: 'grab',
+          userSelect: 'none',
+        }}
+        onMouseDown={onMouseDown}
+        onMouseMove={onMouseMove}
+        onMouseUp={onMouseUp}
+        onMouseLeave={() => {
+          onMouseUp();
+          setHovered(null);
+        }}
+      >
+        <svg width='100%' height={viewportHeight}>
+          <defs>
+            <marker
+              id={markerId}
+              viewBox='0 0 10 10'
+              refX={9}
+              refY={5}
+              markerWidth={10}
+              markerHeight={10}
+              markerUnits='userSpaceOnUse'
+              orient='auto-start-reverse'
             >
-              {`Zone: ${zone}`}
-            </Text>
-
-            {/* Roles */}
-            {roles.map(role => {
-              const hosts = zoneMap[zone][role];
-              const roleBlockHeight =
-                roleTitleHeight + rolePadding + hosts.length * hostSpacing;
+              <path d='M 0 0 L 10 5 L 0 10 z' fill={RECOVERY_EDGE_COLOR} />
+            </marker>
+          </defs>
+          <g transform={`translate(${view.x}, ${view.y}) scale(${view.scale})`}>
+            {layout.blocks.map(block => (
+              <Group key={block.key} top={block.y} left={block.x}>
+                {/* Block background: columns, nested attribute groups and role blocks */}
+                <rect
+                  x={0}
+                  y={0}
+                  width={block.width}
+                  height={block.height}
+                  fill={block.depth === 0 ? '#ccc' : block.isRole ? '#8fa' : '#9bd'}
+                  opacity={block.depth === 0 ? 0.15 : block.isRole ? 0.3 : 0.25}
+                  stroke={block.depth === 0 ? '#777' : block.isRole ? '#484' : '#468'}
+                  strokeWidth={block.depth === 0 ? 2 : 1.5}
+                  rx={block.depth === 0 ? 6 : 4}
+                  ry={block.depth === 0 ? 6 : 4}
+                />
+                {/* Block title */}
+                <Text
+                  x={block.width / 2}
+                  y={block.depth === 0 ? 20 : 16}
+                  fontWeight={block.depth === 0 ? 'bold' : 600}
+                  fontSize={block.depth === 0 ? 16 : 13}
+                  textAnchor='middle'
+                  fill='#000'
+                >
+                  {block.label}
+                </Text>
+              </Group>
+            ))}
+            {layout.hosts.map(({ key, name: hostLabel, role, x, y, height }) => {
+              const node = nodesByName[hostLabel];
+              const hostWarnings = warnings[hostLabel];
+              const value = node ? GRAPH_METRICS[metric].value(node) : undefined;
+              const isSelected = selectedNode === hostLabel;
 
-              const roleGroup = (
-                <Group key={role} top={offsetY} left={padding}>
+              return (
+                <Group
+                  key={key}
+                  left={x}
+                  opacity={selectedNode && !isSelected ? 0.35 : 1}
+                  style={{ cursor: onSelectNode ? 'pointer' : undefined }}
+                  onMouseMove={(e: React.MouseEvent) => onHostMouseMove(hostLabel, e)}
+                  onMouseLeave={() => setHovered(null)}
+                  onClick={() => onHostClick(hostLabel)}
+                >
+                  {/* Metric background, also the hover and click area of the entry */}
                   <rect
-                    x={0}
-                    y={0}
-                    width={zoneWidth - 2 * padding}
-                    height={roleBlockHeight}
-                    fill='#8fa'
-                    opacity={0.3}
-                    stroke='#484'
-                    strokeWidth={1.5}
-                    rx={4}
-                    ry={4}
+                    x={4}
+                    y={y - 12}
+                    width={roleWidth - 8}
+                    height={height - 2}
+                    fill={value !== undefined && getUsageColor ? getUsageColor(value) : '#fff'}
+                    fillOpacity={value !== undefined && getUsageColor ? 0.6 : 0}
+                    stroke={!node ? '#98A2B3' : isSelected ? '#006BB4' : 'none'}
+                    strokeWidth={isSelected ? 2 : 1}
+                    strokeDasharray={!node ? '4 2' : undefined}
+                    rx={3}
+                    ry={3}
                   />
                   <Text
-                    x={(zoneWidth - 2 * padding) / 2}
-                    y={16}
-                    fontWeight={600}
-                    fontSize={13}
+                    x={roleWidth / 2}
+                    y={y}
+                    fontSize={11}
+                    fontWeight={hostWarnings || isSelected ? 600 : undefined}
+                    fontStyle={!node ? 'italic' : undefined}
+                    fill={!node ? '#69707D' : hostWarnings ? '#BD271E' : '#222'}
                     textAnchor='middle'
-                    fill='#000'
                   >
-                    {`Role: ${role}`}
+                    {!node
+                      ? `${hostLabel} (missing)`
+                      : hostWarnings
+                        ? `\u26A0 ${hostLabel}`
+                        : hostLabel}
                   </Text>
-                  {hosts.map((hostLabel, i) => (
-                    <Text
-                      key={hostLabel}
-                      x={(zoneWidth - 2 * padding) / 2}
-                      y={roleTitleHeight + rolePadding + i * hostSpacing}
-                      fontSize={11}
-                      fill='#222'
-                      textAnchor='middle'
-                    >
-                      {hostLabel}
-                    </Text>
-                  ))}
+                  {shards && node && holdsShards(role) && renderShardCells(hostLabel, y + 4)}
                 </Group>
               );
-
-              offsetY += roleBlockHeight + roleMargin;
-              return roleGroup;
             })}
-          </Group>
-        );
-      })}
-    </svg>
+            {renderRecoveryEdges()}
+          </g>
+        </svg>
+        {renderTooltip()}
+      </div>
+    </>
   );
 };
@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  EuiAccordion,
+  EuiBadge,
+  EuiBasicTableColumn,
+  EuiButtonEmpty,
+  EuiCallOut,
+  EuiCodeBlock,
+  EuiDescriptionList,
+  EuiFlexGrid,
+  EuiFlexItem,
+  EuiInMemoryTable,
+  EuiLoadingContent,
+  EuiPageContent,
+  EuiPageContentBody,
+  EuiPageContentHeader,
+  EuiPanel,
+  EuiProgress,
+  EuiSpacer,
+  EuiText,
+  EuiTitle,
+} from '@elastic/eui';
+
+import { CoreStart } from '../../../../src/core/public';
+import { PLUGIN_ID, ShardRecovery } from '../../common';
+import { Shard } from './NetworkGraph';
+
+interface Usage {
+  total: number;
+  used: number;
+  percent: number;
+}
+
+interface DataPath extends Usage {
+  path: string;
+  mount: string | null;
+  type: string | null;
+  free: number;
+  available: number;
+}
+
+interface NodeShard extends Shard {
+  docs: number;
+  store: number;
+}
+
+export interface NodeDetailsData {
+  id: string;
+  name: string;
+  host: string;
+  ip: string;
+  transport_address: string;
+  http_address: string | null;
+  version: string;
+  build_hash: string | null;
+  roles: string[];
+  attributes: Record<string, string>;
+  jvm: {
+    version: string | null;
+    vm_name: string | null;
+    vm_vendor: string | null;
+    start_time: number | null;
+    uptime: number | null;
+    gc_collectors: string[];
+    input_arguments: string[];
+    heap: { init: number | null; used: number; max: number; percent: number };
+    threads: number | null;
+  };
+  os: {
+    name: string | null;
+    pretty_name: string | null;
+    arch: string | null;
+    version: string | null;
+    available_processors: number | null;
+    allocated_processors: number | null;
+    cpu_percent: number | null;
+    load_average: Record<string, number>;
+    mem: Usage;
+  };
+  process: {
+    id: number | null;
+    mlockall: boolean | null;
+    cpu_percent: number | null;
+    open_file_descriptors: number | null;
+    max_file_descriptors: number | null;
+  };
+  fs: { total: Usage; data: DataPath[] };
+  shards: NodeShard[];
+  recoveries: ShardRecovery[];
+}
+
+interface NodeDetailsProps {
+  http: CoreStart['http'];
+  notifications: CoreStart['notifications'];
+  nodeId: string;
+  // Query of the selected cluster ({ dataSourceId } or empty for the local cluster)
+  dataSourceQuery: Record<string, string>;
+  formatBytes: (bytes: number) => string;
+  formatDuration: (millis: number) => string;
+  getUsageColor: (percent: number) => string;
+  // Goes back to the nodes table
+  onBack: () => void;
+  // Changes whenever the parent refreshes its data
+  refreshKey: string;
+}
+
+/**
+ * Everything about one node: attributes, JVM, OS, process, data paths, shards and recoveries
+ */
+export const NodeDetails: React.FC<NodeDetailsProps> = ({
+  http,
+  notifications,
+  nodeId,
+  dataSourceQuery,
+  formatBytes,
+  formatDuration,
+  getUsageColor,
+  onBack,
+  refreshKey,
+}) => {
+  const [node, setNode] = useState<NodeDetailsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNode = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await http.get(`/api/${PLUGIN_ID}/nodes/${encodeURIComponent(nodeId)}`, {
+        query: dataSourceQuery,
+      });
+      setNode(res);
+      setError(null);
+    } catch (err) {
+      setError(err?.body?.message || 'An unexpected error occurred');
+      if (err?.body?.statusCode !== 404) {
+        notifications.toasts.addDanger({
+          title: 'Failed to fetch node details',
+          text: err?.body?.message || 'An unexpected error occurred',
+        });
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [http, notifications, nodeId, dataSourceQuery]);
+
+  // Another node is opened: do not show the previous one while loading
+  useEffect(() => {
+    setNode(null);
+    setError(null);
+  }, [nodeId]);
+
+  useEffect(() => {
+    fetchNode();
+  }, [fetchNode, refreshKey]);
+
+  const renderUsage = (usage: Usage) => (
+    <EuiProgress
+      value={usage.percent.toFixed(2)}
+      max={100}
+      size='s'
+      valueText={true}
+      label={`${formatBytes(usage.used)} / ${formatBytes(usage.total)}`}
+      color={getUsageColor(usage.percent)}
+    />
+  );
+
+  const renderPanel = (title: string, listItems: { title: string; description: React.ReactNode }[]) => (
+    <EuiFlexItem>
+      <EuiPanel paddingSize='m' hasShadow={false} hasBorder>
+        <EuiTitle size='xs'>
+          <h3>{title}</h3>
+        </EuiTitle>
+        <EuiSpacer size='s' />
+        <EuiDescriptionList compressed type='column' listItems={listItems} />
+      </EuiPanel>
+    </EuiFlexItem>
+  );
+
+  const valueOrDash = (value: React.ReactNode) => (value === null || value === undefined ? '-' : value);
+
+  const dataPathColumns: EuiBasicTableColumn<DataPath>[] = [
+    { field: 'path', name: 'Path', sortable: true },
+    { field: 'mount', name: 'Mount', render: valueOrDash },
+    { field: 'type', name: 'Type', render: valueOrDash },
+    {
+      field: 'percent',
+      name: 'Usage',
+      sortable: true,
+      render: (percent: number, path: DataPath) => <div style={{ width: '90%' }}>{renderUsage(path)}</div>,
+    },
+    { field: 'available', name: 'Available', sortable: true, render: formatBytes },
+  ];
+
+  const shardColumns: EuiBasicTableColumn<NodeShard>[] = [
+    { field: 'index', name: 'Index', sortable: true },
+    { field: 'shard', name: 'Shard', sortable: true },
+    {
+      field: 'primary',
+      name: 'Type',
+      sortable: true,
+      render: (primary: boolean) => (primary ? 'Primary' : 'Replica'),
+    },
+    {
+      field: 'state',
+      name: 'State',
+      sortable: true,
+      render: (state: string, shard: NodeShard) =>
+        shard.relocating_node ? `${state} (to ${shard.relocating_node})` : state,
+    },
+    { field: 'docs', name: 'Documents', sortable: true },
+    { field: 'store', name: 'Size', sortable: true, render: formatBytes },
+  ];
+
+  const recoveryColumns: EuiBasicTableColumn<ShardRecovery>[] = [
+    { field: 'index', name: 'Index', sortable: true },
+    { field: 'shard', name: 'Shard', sortable: true },
+    { field: 'type', name: 'Type', sortable: true },
+    { field: 'stage', name: 'Stage', sortable: true },
+    {
+      field: 'source_node',
+      name: 'Direction',
+      render: (source: string, recovery: ShardRecovery) =>
+        source === node?.name ? `Outgoing to ${recovery.target_node}` : `Incoming from ${source}`,
+    },
+    { field: 'bytes_percent', name: 'Bytes', sortable: true },
+    { field: 'time', name: 'Time', sortable: true, render: (time: number) => formatDuration(time) },
+  ];
+
+  const renderBody = () => {
+    if (error && !node) {
+      return (
+        <EuiCallOut color='danger' iconType='alert' title='Node unavailable'>
+          <p>{error}</p>
+        </EuiCallOut>
+      );
+    }
+    if (!node) return <EuiLoadingContent lines={6} />;
+
+    return (
+      <>
+        <EuiText size='s'>
+          {node.roles.map(role => (
+            <EuiBadge key={role}>{role}</EuiBadge>
+          ))}
+        </EuiText>
+
+        <EuiSpacer size='m' />
+
+        <EuiFlexGrid columns={2}>
+          {renderPanel('General', [
+            { title: 'Id', description: node.id },
+            { title: 'Host', description: `${node.host} (${node.ip})` },
+            { title: 'Transport address', description: node.transport_address },
+            { title: 'HTTP address', description: valueOrDash(node.http_address) },
+            { title: 'Version', description: node.version },
+            { title: 'Build', description: valueOrDash(node.build_hash) },
+          ])}
+          {renderPanel(
+            'Attributes',
+            Object.keys(node.attributes).length > 0
+              ? Object.entries(node.attributes).map(([name, value]) => ({ title: name, description: value }))
+              : [{ title: 'None', description: '-' }]
+          )}
+          {renderPanel('JVM', [
+            { title: 'Version', description: valueOrDash(node.jvm.version) },
+            {
+              title: 'VM',
+              description: node.jvm.vm_name ? `${node.jvm.vm_name} (${node.jvm.vm_vendor ?? '-'})` : '-',
+            },
+            { title: 'Uptime', description: node.jvm.uptime === null ? '-' : formatDuration(node.jvm.uptime) },
+            { title: 'Heap', description: renderUsage({ ...node.jvm.heap, total: node.jvm.heap.max }) },
+            {
+              title: 'Initial heap',
+              description: node.jvm.heap.init === null ? '-' : formatBytes(node.jvm.heap.init),
+            },
+            { title: 'Threads', description: valueOrDash(node.jvm.threads) },
+            { title: 'GC collectors', description: node.jvm.gc_collectors.join(', ') || '-' },
+          ])}
+          {renderPanel('OS and process', [
+            { title: 'OS', description: valueOrDash(node.os.pretty_name ?? node.os.name) },
+            { title: 'Architecture', description: `${node.os.arch ?? '-'} (${node.os.version ?? '-'})` },
+            {
+              title: 'Processors',
+              description:
+                `${node.os.allocated_processors ?? '-'} allocated / ` +
+                `${node.os.available_processors ?? '-'} available`,
+            },
+            { title: 'CPU', description: node.os.cpu_percent === null ? '-' : `${node.os.cpu_percent}%` },
+            {
+              title: 'Load average',
+              description: Object.values(node.os.load_average).map(load => load.toFixed(2)).join(' / ') || '-',
+            },
+            { title: 'Memory', description: renderUsage(node.os.mem) },
+            { title: 'Process id', description: valueOrDash(node.process.id) },
+            {
+              title: 'Memory lock',
+              description: node.process.mlockall === null ? '-' : node.process.mlockall ? 'Yes' : 'No',
+            },
+            {
+              title: 'File descriptors',
+              description: `${node.process.open_file_descriptors ?? '-'} / ${node.process.max_file_descriptors ?? '-'}`,
+            },
+          ])}
+        </EuiFlexGrid>
+
+        <EuiSpacer size='m' />
+
+        <EuiAccordion
+          id={`${PLUGIN_ID}-jvm-arguments`}
+          buttonContent={`JVM arguments (${node.jvm.input_arguments.length})`}
+        >
+          <EuiCodeBlock fontSize='s' paddingSize='s' isCopyable>
+            {node.jvm.input_arguments.join('\n')}
+          </EuiCodeBlock>
+        </EuiAccordion>
+
+        <EuiSpacer size='l' />
+
+        <EuiTitle size='xs'>
+          <h3>{`Data paths (${node.fs.data.length})`}</h3>
+        </EuiTitle>
+        <EuiInMemoryTable
+          tableCaption='Data paths of the node'
+          items={node.fs.data}
+          columns={dataPathColumns}
+          loading={loading}
+          sorting={true}
+        />
+
+        <EuiSpacer size='l' />
+
+        <EuiTitle size='xs'>
+          <h3>{`Shards (${node.shards.length})`}</h3>
+        </EuiTitle>
+        <EuiInMemoryTable
+          tableCaption='Shards held by the node'
+          items={node.shards}
+          columns={shardColumns}
+          loading={loading}
+          pagination={true}
+          sorting={{ sort: { field: 'index', direction: 'asc' } }}
+          search={{ box: { incremental: true, placeholder: 'Search...' } }}
+        />
+
+        <EuiSpacer size='l' />
+
+        <EuiTitle size='xs'>
+          <h3>{`Recoveries (${node.recoveries.length})`}</h3>
+        </EuiTitle>
+        <EuiInMemoryTable
+          tableCaption='Recoveries going to or from the node'
+          items={node.recoveries}
+          columns={recoveryColumns}
+          loading={loading}
+          pagination={true}
+          sorting={{ sort: { field: 'time', direction: 'desc' } }}
+        />
+      </>
+    );
+  };
+
+  return (
+    <EuiPageContent>
+      <EuiPageContentHeader>
+        <EuiTitle>
+          <h2>{node ? `Node: ${node.name}` : 'Node'}</h2>
+        </EuiTitle>
+        <EuiButtonEmpty size='s' iconType='arrowLeft' onClick={onBack}>
+          Back to nodes
+        </EuiButtonEmpty>
+      </EuiPageContentHeader>
+      <EuiPageContentBody>{renderBody()}</EuiPageContentBody>
+    </EuiPageContent>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import {
+  EuiBasicTableColumn,
+  EuiButtonIcon,
+  EuiHealth,
+  EuiIcon,
+  EuiInMemoryTable,
+  EuiToolTip,
+} from '@elastic/eui';
+
+export interface SnapshotHistoryEntry {
+  snapshot: string;
+  uuid: string;
+  state: string;
+  indices: number;
+  start_time: number;
+  end_time: number | null;
+  duration: number;
+  size: number | null;
+  shards: { total: number; failed: number; successful: number };
+  failures: { index: string; shard: number; node: string | null; reason: string }[];
+}
+
+export interface SnapshotRepository {
+  name: string;
+  type: string;
+  location: string | null;
+  // Most recent snapshots
+  snapshots: SnapshotHistoryEntry[];
+  // Last successful snapshot, even when older than the recent snapshots
+  last_success: SnapshotHistoryEntry | null;
+}
+
+interface SnapshotHistoryProps {
+  repositories: SnapshotRepository[];
+  loading: boolean;
+  formatBytes: (bytes: number) => string;
+  formatDuration: (millis: number) => string;
+}
+
+/**
+ * Determines the color for a snapshot state
+ * @param state - Snapshot state
+ * @returns string - Health color
+ */
+const getSnapshotStateColor = (state: string): string => {
+  if (state === 'SUCCESS') return 'success';
+  if (state === 'IN_PROGRESS') return 'warning';
+  return 'danger';
+};
+
+const isFailed = (snapshot: SnapshotHistoryEntry) =>
+  snapshot.state === 'PARTIAL' || snapshot.state === 'FAILED';
+
+/**
+ * Repository overview with the recent snapshots of each repository
+ */
+export const SnapshotHistory: React.FC<SnapshotHistoryProps> = ({
+  repositories,
+  loading,
+  formatBytes,
+  formatDuration,
+}) => {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const snapshotColumns: EuiBasicTableColumn<SnapshotHistoryEntry>[] = [
+    {
+      field: 'snapshot',
+      name: 'Snapshot',
+      sortable: true,
+      render: (name: string, item: SnapshotHistoryEntry) => (
+        <EuiToolTip content={`UUID: ${item.uuid}`}>
+          <span>{name}</span>
+        </EuiToolTip>
+      ),
+    },
+    {
+      field: 'state',
+      name: 'State',
+      sortable: true,
+      render: (state: string, item: SnapshotHistoryEntry) => (
+        <EuiHealth color={getSnapshotStateColor(state)}>
+          {item.failures.length > 0 ? (
+            <EuiToolTip
+              content={
+                <ul>
+                  {item.failures.map(failure => (
+                    <li key={`${failure.index}-${failure.shard}`}>
+                      {`${failure.index}[${failure.shard}]: ${failure.reason}`}
+                    </li>
+                  ))}
+                </ul>
+              }
+            >
+              <span>
+                {state} <EuiIcon type='questionInCircle' size='s' />
+              </span>
+            </EuiToolTip>
+          ) : (
+            state
+          )}
+        </EuiHealth>
+      ),
+    },
+    { field: 'indices', name: 'Indices', sortable: true },
+    {
+      field: 'shards',
+      name: 'Failed Shards',
+      render: (shards: SnapshotHistoryEntry['shards']) => (
+        <span style={{ color: shards.failed > 0 ? '#FF6666' : undefined }}>
+          {`${shards.failed} / ${shards.total}`}
+        </span>
+      ),
+    },
+    {
+      field: 'size',
+      name: 'Size',
+      render: (size: number | null) => (size === null ? '-' : formatBytes(size)),
+      sortable: true,
+    },
+    {
+      field: 'duration',
+      name: 'Duration',
+      render: (time: number) => formatDuration(time),
+      sortable: true,
+    },
+    {
+      field: 'start_time',
+      name: 'Start Time',
+      render: (time: number) => new Date(time).toLocaleString(),
+      sortable: true,
+    },
+  ];
+
+  const repositoryColumns: EuiBasicTableColumn<SnapshotRepository>[] = [
+    { field: 'name', name: 'Repository', sortable: true },
+    { field: 'type', name: 'Type', sortable: true },
+    {
+      field: 'last_success',
+      name: 'Last Successful Snapshot',
+      render: (lastSuccess: SnapshotHistoryEntry | null) => {
+        if (!lastSuccess) return <EuiHealth color='danger'>None</EuiHealth>;
+
+        const since = Date.now() - (lastSuccess.end_time ?? lastSuccess.start_time);
+        return (
+          <EuiToolTip content={new Date(lastSuccess.end_time ?? lastSuccess.start_time).toLocaleString()}>
+            <span>{`${formatDuration(since)} ago`}</span>
+          </EuiToolTip>
+        );
+      },
+    },
+    {
+      field: 'snapshots',
+      name: 'Last Snapshot',
+      render: (snapshots: SnapshotHistoryEntry[]) =>
+        snapshots.length > 0 ? (
+          <EuiHealth color={getSnapshotStateColor(snapshots[0].state)}>{snapshots[0].state}</EuiHealth>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      field: 'snapshots',
+      name: 'Partial / Failed',
+      render: (snapshots: SnapshotHistoryEntry[]) => {
+        const failed = snapshots.filter(isFailed).length;
+        return (
+          <span style={{ color: failed > 0 ? '#FF6666' : '#159D8D' }}>
+            {`${failed} / ${snapshots.length}`}
+          </span>
+        );
+      },
+    },
+    {
+      width: '40px',
+      isExpander: true,
+      render: (repository: SnapshotRepository) => (
+        <EuiButtonIcon
+          onClick={() => setExpanded({ ...expanded, [repository.name]: !expanded[repository.name] })}
+          aria-label={expanded[repository.name] ? 'Collapse' : 'Expand'}
+          iconType={expanded[repository.name] ? 'arrowUp' : 'arrowDown'}
+        />
+      ),
+    },
+  ];
+
+  const expandedRows = repositories
+    .filter(repository => expanded[repository.name])
+    .reduce<Record<string, React.ReactNode>>((acc, repository) => {
+      acc[repository.name] = (
+        <EuiInMemoryTable
+          tableCaption={`Snapshots of ${repository.name}`}
+          items={repository.snapshots}
+          columns={snapshotColumns}
+          pagination={true}
+          sorting={{
+            sort: {
+              field: 'start_time',
+              direction: 'desc',
+            },
+          }}
+        />
+      );
+      return acc;
+    }, {});
+
+  return (
+    <EuiInMemoryTable
+      tableCaption='OpenSearch Snapshot Repositories'
+      items={repositories}
+      itemId='name'
+      itemIdToExpandedRowMap={expandedRows}
+      isExpandable={true}
+      columns={repositoryColumns}
+      loading={loading}
+      pagination={true}
+      sorting={{
+        sort: {
+          field: 'name',
+          direction: 'asc',
+        },
+      }}
+    />
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import {
+  EuiBasicTableColumn,
+  EuiButtonIcon,
+  EuiConfirmModal,
+  EuiFieldNumber,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiHealth,
+  EuiInMemoryTable,
+  EuiSpacer,
+  EuiText,
+  EuiTitle,
+  EuiToolTip,
+} from '@elastic/eui';
+
+export interface PendingTask {
+  insert_order: number;
+  priority: string;
+  source: string;
+  executing: boolean;
+  time_in_queue: number;
+}
+
+export interface Task {
+  id: string;
+  node_id: string;
+  node: string;
+  host: string;
+  action: string;
+  type: string;
+  description: string;
+  start_time: number;
+  running_time: number;
+  cancellable: boolean;
+  cancelled: boolean;
+  parent_task_id: string | null;
+}
+
+interface TaskGroup {
+  id: string;
+  action: string;
+  node: string;
+  count: number;
+  longest: number;
+}
+
+interface TasksPanelProps {
+  pendingTasks: PendingTask[];
+  tasks: Task[];
+  loading: boolean;
+  formatDuration: (millis: number) => string;
+  // Whether the user holds the permission to cancel tasks
+  canCancel: boolean;
+  onCancel: (task: Task) => Promise<void>;
+}
+
+const getPriorityColor = (priority: string): string => {
+  if (priority === 'IMMEDIATE' || priority === 'URGENT') return 'danger';
+  if (priority === 'HIGH') return 'warning';
+  return 'subdued';
+};
+
+/**
+ * Pending cluster-state tasks and long-running tasks, with task cancellation
+ */
+export const TasksPanel: React.FC<TasksPanelProps> = ({
+  pendingTasks,
+  tasks,
+  loading,
+  formatDuration,
+  canCancel,
+  onCancel,
+}) => {
+  const [minRunningTime, setMinRunningTime] = useState(10);
+  const [taskToCancel, setTaskToCancel] = useState<Task | null>(null);
+
+  // Child tasks are cancelled with their parent, so only top-level tasks are listed
+  const longRunningTasks = useMemo(
+    () => tasks.filter(task => !task.parent_task_id && task.running_time >= minRunningTime * 1000),
+    [tasks, minRunningTime]
+  );
+
+  const taskGroups = useMemo(() => {
+    const groups: Record<string, TaskGroup> = {};
+    longRunningTasks.forEach(task => {
+      const id = `${task.action}/${task.node}`;
+      if (!groups[id]) groups[id] = { id, action: task.action, node: task.node, count: 0, longest: 0 };
+      groups[id].count += 1;
+      groups[id].longest = Math.max(groups[id].longest, task.running_time);
+    });
+    return Object.values(groups);
+  }, [longRunningTasks]);
+
+  const pendingColumns: EuiBasicTableColumn<PendingTask>[] = [
+    { field: 'insert_order', name: 'Order', sortable: true, width: '80px' },
+    {
+      field: 'priority',
+      name: 'Priority',
+      sortable: true,
+      render: (priority: string) => <EuiHealth color={getPriorityColor(priority)}>{priority}</EuiHealth>,
+    },
+    { field: 'source', name: 'Source' },
+    {
+      field: 'executing',
+      name: 'Executing',
+      render: (executing: boolean) => (executing ? 'Yes' : 'No'),
+    },
+    {
+      field: 'time_in_queue',
+      name: 'Time in Queue',
+      render: (time: number) => formatDuration(time),
+      sortable: true,
+    },
+  ];
+
+  const groupColumns: EuiBasicTableColumn<TaskGroup>[] = [
+    { field: 'action', name: 'Action', sortable: true },
+    { field: 'node', name: 'Node', sortable: true },
+    { field: 'count', name: 'Tasks', sortable: true },
+    {
+      field: 'longest',
+      name: 'Longest Running',
+      render: (time: number) => formatDuration(time),
+      sortable: true,
+    },
+  ];
+
+  const taskColumns: EuiBasicTableColumn<Task>[] = [
+    { field: 'id', name: 'Task', sortable: true },
+    { field: 'action', name: 'Action', sortable: true },
+    { field: 'node', name: 'Node', sortable: true },
+    {
+      field: 'description',
+      name: 'Description',
+      truncateText: true,
+      render: (description: string) => (
+        <EuiToolTip content={description}>
+          <span>{description || '-'}</span>
+        </EuiToolTip>
+      ),
+    },
+    {
+      field: 'running_time',
+      name: 'Running Time',
+      render: (time: number) => formatDuration(time),
+      sortable: true,
+    },
+  ];
+  if (canCancel) {
+    taskColumns.push({
+      name: 'Cancel',
+      width: '60px',
+      render: (task: Task) =>
+        task.cancellable ? (
+          <EuiButtonIcon
+            iconType='cross'
+            color='danger'
+            aria-label={`Cancel task ${task.id}`}
+            isDisabled={task.cancelled}
+            onClick={() => setTaskToCancel(task)}
+          />
+        ) : null,
+    });
+  }
+
+  return (
+    <>
+      <EuiTitle size='s'>
+        <h3>Pending Cluster Tasks</h3>
+      </EuiTitle>
+      <EuiSpacer size='s' />
+      <EuiInMemoryTable
+        tableCaption='OpenSearch Pending Cluster Tasks'
+        items={pendingTasks}
+        columns={pendingColumns}
+        loading={loading}
+        pagination={true}
+        sorting={{
+          sort: {
+            field: 'insert_order',
+            direction: 'asc',
+          },
+        }}
+        message='No pending cluster tasks'
+      />
+
+      <EuiSpacer size='l' />
+
+      <EuiFlexGroup justifyContent='spaceBetween' alignItems='center'>
+        <EuiFlexItem grow={false}>
+          <EuiTitle size='s'>
+            <h3>Long-running Tasks</h3>
+          </EuiTitle>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false} style={{ width: '200px' }}>
+          <EuiFieldNumber
+            compressed
+            prepend='Longer than'
+            append={<EuiText size='xs'><span>sec</span></EuiText>}
+            value={minRunningTime}
+            min={0}
+            onChange={(e) => setMinRunningTime(parseInt(e.target.value, 10) || 0)}
+          />
+        </EuiFlexItem>
+      </EuiFlexGroup>
+      <EuiSpacer size='s' />
+      <EuiInMemoryTable
+        tableCaption='OpenSearch Tasks by Action and Node'
+        items={taskGroups}
+        columns={groupColumns}
+        loading={loading}
+        pagination={true}
+        sorting={{
+          sort: {
+            field: 'longest',
+            direction: 'desc',
+          },
+        }}
+      />
+      <EuiSpacer size='m' />
+      <EuiInMemoryTable
+        tableCaption='OpenSearch Long-running Tasks'
+        items={longRunningTasks}
+        columns={taskColumns}
+        loading={loading}
+        pagination={true}
+        sorting={{
+          sort: {
+            field: 'running_time',
+            direction: 'desc',
+          },
+        }}
+        search={{
+          box: {
+            incremental: true,
+            placeholder: 'Search...',
+          },
+        }}
+      />
+
+      {taskToCancel && (
+        <EuiConfirmModal
+          title='Cancel task?'
+          onCancel={() => setTaskToCancel(null)}
+          onConfirm={async () => {
+            await onCancel(taskToCancel);
+            setTaskToCancel(null);
+          }}
+          cancelButtonText='Keep running'
+          confirmButtonText='Cancel task'
+          buttonColor='danger'
+          defaultFocusedButton='cancel'
+        >
+          <p>
+            <strong>{taskToCancel.action}</strong> on {taskToCancel.node} ({taskToCancel.id})
+          </p>
+          {taskToCancel.description && <p>{taskToCancel.description}</p>}
+        </EuiConfirmModal>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import {
+  EuiBasicTable,
+  EuiBasicTableColumn,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiSpacer,
+  EuiSwitch,
+  EuiText,
+  EuiToolTip,
+} from '@elastic/eui';
+
+export interface ThreadPoolStats {
+  key: string;
+  node_id: string;
+  node: string;
+  pool: string;
+  threads: number;
+  active: number;
+  queue: number;
+  largest: number;
+  completed: number;
+  rejected: number;
+  rejected_delta: number;
+}
+
+interface ThreadPoolHeatmapProps {
+  pools: ThreadPoolStats[];
+  // Time between the current and the previous sample (null on the first sample)
+  interval: number | null;
+  loading: boolean;
+}
+
+interface NodeRow {
+  node: string;
+  pools: Record<string, ThreadPoolStats>;
+}
+
+// Pools shown unless "Show all pools" is enabled
+const MAIN_POOLS = ['write', 'search', 'get', 'analyze', 'management', 'refresh', 'flush', 'force_merge', 'snapshot'];
+
+/**
+ * Determines the cell background from the pool queue and the rejections since the previous sample
+ * @param stats - Thread pool stats of a node
+ * @returns string - Background color
+ */
+const getCellColor = (stats: ThreadPoolStats): string => {
+  if (stats.rejected_delta > 0) return 'rgba(255, 102, 102, 0.45)';
+  if (stats.queue > 0) return 'rgba(255, 206, 122, 0.45)';
+  if (stats.active > 0) return 'rgba(21, 157, 141, 0.15)';
+  return 'transparent';
+};
+
+/**
+ * Node x pool table highlighting queued tasks and new rejections
+ */
+export const ThreadPoolHeatmap: React.FC<ThreadPoolHeatmapProps> = ({ pools, interval, loading }) => {
+  const [showAllPools, setShowAllPools] = useState(false);
+
+  const rows = useMemo(() => {
+    const map: Record<string, NodeRow> = {};
+    pools.forEach(stats => {
+      if (!map[stats.node_id]) map[stats.node_id] = { node: stats.node, pools: {} };
+      map[stats.node_id].pools[stats.pool] = stats;
+    });
+    return Object.values(map).sort((a, b) => a.node.localeCompare(b.node));
+  }, [pools]);
+
+  const poolNames = useMemo(() => {
+    const names = Array.from(new Set(pools.map(stats => stats.pool)));
+    return showAllPools
+      ? names.sort()
+      : MAIN_POOLS.filter(name => names.includes(name));
+  }, [pools, showAllPools]);
+
+  const columns: EuiBasicTableColumn<NodeRow>[] = [
+    { field: 'node', name: 'Node' },
+    ...poolNames.map(pool => ({
+      field: 'pools',
+      name: pool,
+      render: (nodePools: NodeRow['pools']) => {
+        const stats = nodePools[pool];
+        if (!stats) return '-';
+
+        return (
+          <EuiToolTip
+            content={
+              <div>
+                <div>Threads: {stats.threads} (largest {stats.largest})</div>
+                <div>Active: {stats.active}</div>
+                <div>Queue: {stats.queue}</div>
+                <div>Completed: {stats.completed.toLocaleString()}</div>
+                <div>Rejected (lifetime): {stats.rejected.toLocaleString()}</div>
+                <div>Rejected (since last sample): {stats.rejected_delta.toLocaleString()}</div>
+              </div>
+            }
+          >
+            <div style={{ background: getCellColor(stats), padding: '2px 6px', borderRadius: '3px' }}>
+              <EuiText size='xs'>
+                {`${stats.active} / ${stats.queue}`}
+                {stats.rejected_delta > 0 && (
+                  <strong style={{ color: '#BD271E' }}>{` +${stats.rejected_delta} rejected`}</strong>
+                )}
+              </EuiText>
+            </div>
+          </EuiToolTip>
+        );
+      },
+    })),
+  ];
+
+  return (
+    <>
+      <EuiFlexGroup justifyContent='spaceBetween' alignItems='center'>
+        <EuiFlexItem grow={false}>
+          <EuiText size='xs' color='subdued'>
+            Cells show active / queued threads.
+            {interval !== null && ` Rejections are counted over the last ${Math.round(interval / 1000)} seconds.`}
+          </EuiText>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiSwitch
+            label='Show all pools'
+            checked={showAllPools}
+            onChange={() => setShowAllPools(!showAllPools)}
+          />
+        </EuiFlexItem>
+      </EuiFlexGroup>
+
+      <EuiSpacer size='m' />
+
+      <EuiBasicTable
+        tableCaption='OpenSearch Thread Pools'
+        items={rows}
+        columns={columns}
+        loading={loading}
+      />
+    </>
+  );
+};
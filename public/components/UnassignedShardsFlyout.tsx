@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  EuiBasicTableColumn,
+  EuiButtonIcon,
+  EuiCallOut,
+  EuiDescriptionList,
+  EuiFlyout,
+  EuiFlyoutBody,
+  EuiFlyoutHeader,
+  EuiInMemoryTable,
+  EuiLoadingSpinner,
+  EuiSpacer,
+  EuiText,
+  EuiTitle,
+} from '@elastic/eui';
+
+import { CoreStart } from '../../../../src/core/public';
+import { PLUGIN_ID } from '../../common';
+
+interface UnassignedShard {
+  index: string;
+  shard: number;
+  primary: boolean;
+  state: string;
+  unassigned_reason: string | null;
+  unassigned_at: string | null;
+}
+
+/**
+ * Unassigned shard row, identified by its position: with several replicas, copies share index, shard and role
+ */
+interface UnassignedShardRow extends UnassignedShard {
+  id: string;
+}
+
+interface AllocationReason {
+  decider: string;
+  label: string;
+  explanation: string;
+  nodes: string[];
+}
+
+interface AllocationExplanation {
+  can_allocate: string | null;
+  explanation: string | null;
+  unassigned_info: {
+    reason: string | null;
+    at: string | null;
+    details: string | null;
+    last_allocation_status: string | null;
+  };
+  reasons: AllocationReason[];
+}
+
+interface UnassignedShardsFlyoutProps {
+  http: CoreStart['http'];
+  notifications: CoreStart['notifications'];
+  // Data source of the monitored cluster (empty for the local cluster)
+  dataSourceId: string;
+  onClose: () => void;
+}
+
+/**
+ * Flyout listing the unassigned shards with their allocation explanation
+ */
+export const UnassignedShardsFlyout: React.FC<UnassignedShardsFlyoutProps> = ({
+  http,
+  notifications,
+  dataSourceId,
+  onClose,
+}) => {
+  const [shards, setShards] = useState<UnassignedShardRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [explanations, setExplanations] = useState<Record<string, AllocationExplanation | null>>({});
+
+  const dataSourceQuery = dataSourceId ? { dataSourceId } : {};
+
+  const fetchShards = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await http.get(`/api/${PLUGIN_ID}/unassigned_shards`, { query: dataSourceQuery });
+      setShards(
+        res.map((shard: UnassignedShard, position: number) => ({
+          ...shard,
+          id: `${shard.index}:${shard.shard}:${shard.primary ? 'p' : 'r'}:${position}`,
+        }))
+      );
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch unassigned shards',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [http, notifications, dataSourceId]);
+
+  useEffect(() => {
+    fetchShards();
+  }, [fetchShards]);
+
+  /**
+   * Expands or collapses a shard row, fetching its explanation on first expansion
+   * @param shard - The unassigned shard
+   */
+  const toggleExplanation = async (shard: UnassignedShardRow) => {
+    const key = shard.id;
+    if (key in explanations) {
+      const { [key]: _removed, ...rest } = explanations;
+      setExplanations(rest);
+      return;
+    }
+
+    setExplanations(prev => ({ ...prev, [key]: null }));
+    try {
+      const res = await http.get(`/api/${PLUGIN_ID}/allocation_explain`, {
+        query: { ...dataSourceQuery, index: shard.index, shard: shard.shard, primary: shard.primary },
+      });
+      setExplanations(prev => ({ ...prev, [key]: res }));
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: `Failed to explain ${shard.index}[${shard.shard}]`,
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+      setExplanations(prev => {
+        const { [key]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const renderExplanation = (explanation: AllocationExplanation | null) => {
+    if (!explanation) return <EuiLoadingSpinner size='m' />;
+
+    return (
+      <div style={{ width: '100%' }}>
+        {explanation.explanation && (
+          <EuiCallOut size='s' color='warning' title={explanation.explanation} />
+        )}
+        <EuiSpacer size='s' />
+        <EuiDescriptionList
+          compressed
+          type='column'
+          listItems={[
+            { title: 'Unassigned reason', description: explanation.unassigned_info.reason ?? '-' },
+            { title: 'Details', description: explanation.unassigned_info.details ?? '-' },
+            { title: 'Can allocate', description: explanation.can_allocate ?? '-' },
+          ]}
+        />
+        <EuiSpacer size='s' />
+        {explanation.reasons.length > 0 ? (
+          <EuiDescriptionList
+            compressed
+            listItems={explanation.reasons.map(reason => ({
+              title: `${reason.label} (${reason.nodes.length} node${reason.nodes.length !== 1 ? 's' : ''})`,
+              description: (
+                <>
+                  <EuiText size='xs'>{reason.explanation}</EuiText>
+                  <EuiText size='xs' color='subdued'>{reason.nodes.join(', ')}</EuiText>
+                </>
+              ),
+            }))}
+          />
+        ) : (
+          <EuiText size='s' color='subdued'>No blocking decider reported.</EuiText>
+        )}
+      </div>
+    );
+  };
+
+  const columns: EuiBasicTableColumn<UnassignedShardRow>[] = [
+    { field: 'index', name: 'Index', sortable: true },
+    { field: 'shard', name: 'Shard', sortable: true, width: '70px' },
+    {
+      field: 'primary',
+      name: 'Type',
+      render: (primary: boolean) => (primary ? 'Primary' : 'Replica'),
+      sortable: true,
+      width: '80px',
+    },
+    { field: 'unassigned_reason', name: 'Reason', sortable: true },
+    {
+      width: '40px',
+      isExpander: true,
+      render: (shard: UnassignedShardRow) => (
+        <EuiButtonIcon
+          onClick={() => toggleExplanation(shard)}
+          aria-label={shard.id in explanations ? 'Collapse' : 'Explain'}
+          iconType={shard.id in explanations ? 'arrowUp' : 'arrowDown'}
+        />
+      ),
+    },
+  ];
+
+  const expandedRows = Object.keys(explanations).reduce<Record<string, React.ReactNode>>(
+    (acc, key) => {
+      acc[key] = renderExplanation(explanations[key]);
+      return acc;
+    },
+    {}
+  );
+
+  return (
+    <EuiFlyout onClose={onClose} size='l' ownFocus>
+      <EuiFlyoutHeader hasBorder>
+        <EuiTitle size='m'>
+          <h2>Unassigned Shards</h2>
+        </EuiTitle>
+      </EuiFlyoutHeader>
+      <EuiFlyoutBody>
+        <EuiInMemoryTable
+          tableCaption='Unassigned shards'
+          items={shards}
+          itemId='id'
+          itemIdToExpandedRowMap={expandedRows}
+          isExpandable={true}
+          columns={columns}
+          loading={loading}
+          pagination={true}
+          sorting={{
+            sort: {
+              field: 'index',
+              direction: 'asc',
+            },
+          }}
+          search={{
+            box: {
+              incremental: true,
+              placeholder: 'Search...',
+            },
+          }}
+        />
+      </EuiFlyoutBody>
+    </EuiFlyout>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  EuiBasicTableColumn,
+  EuiCallOut,
+  EuiHealth,
+  EuiInMemoryTable,
+  EuiProgress,
+  EuiSpacer,
+  EuiText,
+} from '@elastic/eui';
+
+interface UpgradeNode {
+  id: string;
+  name: string;
+  host: string;
+  version: string;
+  jvm_version: string | null;
+}
+
+interface StuckReplica {
+  index: string;
+  shard: number;
+  primary_node: string;
+  primary_version: string;
+}
+
+export interface UpgradeStatus {
+  target_version: string | null;
+  versions: { version: string; nodes: number }[];
+  upgraded: number;
+  total: number;
+  nodes: UpgradeNode[];
+  stuck_replicas: StuckReplica[];
+}
+
+interface UpgradeTrackerProps {
+  status: UpgradeStatus;
+  loading: boolean;
+}
+
+/**
+ * Progress of a rolling upgrade: nodes on the target version, per-node versions and stuck replicas
+ */
+export const UpgradeTracker: React.FC<UpgradeTrackerProps> = ({ status, loading }) => {
+  const percent = status.total > 0 ? (status.upgraded / status.total) * 100 : 0;
+
+  const columns: EuiBasicTableColumn<UpgradeNode>[] = [
+    { field: 'name', name: 'Node Name', sortable: true },
+    { field: 'host', name: 'Host', sortable: true },
+    {
+      field: 'version',
+      name: 'OpenSearch Version',
+      sortable: true,
+      render: (version: string) => (
+        <EuiHealth color={version === status.target_version ? 'success' : 'warning'}>{version}</EuiHealth>
+      ),
+    },
+    {
+      field: 'jvm_version',
+      name: 'JVM Version',
+      sortable: true,
+      render: (version: string | null) => version ?? '-',
+    },
+  ];
+
+  return (
+    <>
+      <EuiProgress
+        value={status.upgraded}
+        max={status.total}
+        size='m'
+        color={percent === 100 ? '#159D8D' : '#FFCE7A'}
+        label={`${status.upgraded} / ${status.total} nodes on ${status.target_version}`}
+        valueText={`${percent.toFixed(0)}%`}
+      />
+      <EuiSpacer size='s' />
+      <EuiText size='xs' color='subdued'>
+        {status.versions.map(({ version, nodes }) => `${version}: ${nodes} node(s)`).join(' | ')}
+      </EuiText>
+
+      {status.stuck_replicas.length > 0 && (
+        <>
+          <EuiSpacer size='m' />
+          <EuiCallOut
+            size='s'
+            color='warning'
+            iconType='alert'
+            title={`${status.stuck_replicas.length} replica(s) cannot be allocated until more nodes are upgraded`}
+          >
+            <p>Replicas are never allocated to a node running an older version than their primary.</p>
+            <ul>
+              {status.stuck_replicas.slice(0, 10).map(replica => (
+                <li key={`${replica.index}-${replica.shard}`}>
+                  {`${replica.index}[${replica.shard}]: primary on ${replica.primary_node} (${replica.primary_version})`}
+                </li>
+              ))}
+              {status.stuck_replicas.length > 10 && <li>{`and ${status.stuck_replicas.length - 10} more`}</li>}
+            </ul>
+          </EuiCallOut>
+        </>
+      )}
+
+      <EuiSpacer size='m' />
+
+      <EuiInMemoryTable
+        tableCaption='OpenSearch Node Versions'
+        items={status.nodes}
+        columns={columns}
+        loading={loading}
+        pagination={true}
+        sorting={{
+          sort: {
+            field: 'version',
+            direction: 'asc',
+          },
+        }}
+      />
+    </>
+  );
+};
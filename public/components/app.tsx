@@ -1,14 +1,18 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { FormattedMessage, I18nProvider } from '@osd/i18n/react';
-import { BrowserRouter as Router } from 'react-router-dom';
+import { Redirect, Route, Router, Switch } from 'react-router-dom';
 import {
   EuiBasicTableColumn,
+  EuiButtonEmpty,
+  EuiComboBox,
   EuiFieldNumber,
   EuiFlexGroup,
   EuiFlexItem,
+  EuiHealth,
   EuiHorizontalRule,
   EuiIcon,
   EuiInMemoryTable,
+  EuiLink,
   EuiPage,
   EuiPageBody,
   EuiPageContent,
@@ -16,138 +20,123 @@ import {
   EuiPageContentHeader,
   EuiPageHeader,
   EuiProgress,
+  EuiSearchBar,
+  EuiSelect,
   EuiSpacer,
   EuiStat,
   EuiSwitch,
+  EuiTab,
+  EuiTabs,
   EuiText,
   EuiTitle,
   EuiToolTip
 } from '@elastic/eui';
 
-import { CoreStart } from '../../../../src/core/public';
+import { CoreStart, ScopedHistory } from '../../../../src/core/public';
 import { NavigationPublicPluginStart } from '../../../../src/plugins/navigation/public';
-import { PLUGIN_ID, PLUGIN_NAME } from '../../common';
-import { NetworkGraph } from './NetworkGraph';
+import { PLUGIN_ID, PLUGIN_NAME, ClusterHealth, ClusterNode, ClusterStats, ShardRecovery } from '../../common';
+import { GRAPH_METRICS, GraphMetric, NetworkGraph, Shard, SHARD_COLORS } from './NetworkGraph';
+import { HistoryCharts, HistorySample } from './HistoryCharts';
+import { AlertsBanner, Alert } from './AlertsBanner';
+import { UnassignedShardsFlyout } from './UnassignedShardsFlyout';
+import { ThreadPoolHeatmap, ThreadPoolStats } from './ThreadPoolHeatmap';
+import { TasksPanel, PendingTask, Task } from './TasksPanel';
+import { SnapshotHistory, SnapshotRepository } from './SnapshotHistory';
+import { FleetOverview } from './FleetOverview';
+import { UpgradeTracker, UpgradeStatus } from './UpgradeTracker';
+import { MissingPermissions } from './MissingPermissions';
+import { ExportButton } from './ExportButton';
+import { DiagnosticsButton } from './DiagnosticsButton';
+import { NodeDetails } from './NodeDetails';
+import { MonitoringClient } from '../services/monitoringClient';
+import { MonitoringPanel } from '../types';
 
 /**
  * Interface for the dependencies required by the MonitoringApp component
  */
 interface MonitoringAppDeps {
-  basename: string;
+  history: ScopedHistory;
   notifications: CoreStart['notifications'];
   http: CoreStart['http'];
   navigation: NavigationPublicPluginStart;
+  // Extra panels registered by other plugins
+  panels: MonitoringPanel[];
 }
 
 /**
- * Interface representing a cluster node
+ * Interface representing a disk watermark threshold of a node
  */
-interface ClusterNode {
+interface WatermarkThreshold {
+  setting: string;
+  threshold: number;
+  percent: number;
+  headroom: number;
+}
+
+type WatermarkLevel = 'ok' | 'low' | 'high' | 'flood_stage';
+
+/**
+ * Interface representing the disk watermarks of a node
+ */
+interface NodeWatermarks {
   id: string;
   name: string;
-  host: string;
-  roles: string[];
-  zone: string;
-  cpu: { percent: number };
-  mem: { total: number; used: number; percent: number };
-  swap: { total: number; used: number; percent: number };
-  fs: { total: number; used: number; percent: number };
+  fs: { total: number; used: number; free: number };
+  watermarks: {
+    low: WatermarkThreshold | null;
+    high: WatermarkThreshold | null;
+    flood_stage: WatermarkThreshold | null;
+  };
+  level: WatermarkLevel;
 }
 
 /**
- * Interface representing cluster index recovery information
+ * Interface representing cluster configuration
  */
-interface ClusterIndex {
-  index: string;
-  shard: number;
-  time: number;
-  type: string;
-  stage: string;
-  source_host: string;
-  source_node: string;
-  target_host: string;
-  target_node: string;
-  files: number;
-  files_recovered: number;
-  files_percent: string;
-  files_total: number;
-  bytes: number;
-  bytes_recovered: number;
-  bytes_percent: string;
-  bytes_total: number;
-  translog_recovered: number;
-  translog_percent: string;
-  translog_total: number;
+interface ClusterConfig {
+  nodes: ExpectedNode[];
+  stream?: { enabled: boolean; interval: number };
 }
 
 /**
- * Interface representing cluster health information
+ * Interface representing a configured node, null expectations are not checked
  */
-interface ClusterHealth {
-  cluster_name: string;
-  status: string;
-  number_of_nodes: number;
-  number_of_data_nodes: number;
-  active_primary_shards: number;
-  active_shards: number;
-  unassigned_shards: number;
-  initializing_shards: number;
-  active_shards_percent_as_number: number;
+interface ExpectedNode {
+  name: string;
+  roles: string[] | null;
+  zone: string | null;
+  host: string | null;
 }
 
 /**
- * Interface representing cluster configuration
+ * Interface representing a difference between the expected and the actual node
  */
-interface ClusterConfig {
-  nodes: string[];
+interface NodeDrift {
+  name: string;
+  field: 'roles' | 'zone' | 'host';
+  expected: string;
+  actual: string;
 }
 
 /**
- * Interface representing cluster statistics
+ * Interface representing per-index statistics
  */
-interface ClusterStats {
-  cluster_name: string;
+interface IndexStats {
+  index: string;
+  uuid: string;
+  health: string;
   status: string;
-  version: string;
-  uptime: number;
-  nodes: {
-    total: number;
-    cluster_manager: number;
-    coordinating_only: number;
-    data: number;
-    ingest: number;
-    master: number;
-    remote_cluster_client: number;
-    search: number;
-    warm: number;
-  };
-  jvm: {
-    mem: { used: number; total: number; percent: number };
-    threads: number;
+  primaries: number;
+  replicas: number;
+  docs: {
+    count: number;
+    deleted: number;
   };
-  fs: {
-    used: number;
+  store: {
+    primaries: number;
     total: number;
-    percent: number;
-  };
-  indices: {
-    count: number;
-    shards: {
-      total: number;
-      primaries: number;
-      replication: number;
-    };
-    docs: {
-      count: number;
-      deleted: number;
-    };
-    store: {
-      size_in_bytes: number;
-    };
-    segments: {
-      count: number;
-    };
   };
+  segments: number;
 }
 
 /**
@@ -234,14 +223,78 @@ interface Snapshot {
   };
 }
 
+/**
+ * Interface representing the permissions check of the current user
+ */
+interface Permissions {
+  permissions: { permission: string; granted: boolean }[];
+  unavailable: Record<string, string[]>;
+}
+
+/**
+ * Interface representing a monitored cluster (empty id for the local cluster)
+ */
+interface DataSource {
+  id: string;
+  title: string;
+}
+
+/**
+ * Interface representing the sort order of a table, kept in the URL as `field:direction`
+ */
+interface TableSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Tabs of the cluster view, each with its own URL
+ */
+const CLUSTER_TABS = [
+  { path: '/', label: 'Overview' },
+  { path: '/nodes', label: 'Nodes' },
+  { path: '/recovery', label: 'Shards Recovery' },
+  { path: '/snapshots', label: 'Snapshots' },
+  { path: '/topology', label: 'Topology' },
+];
+
+/**
+ * Exported fields of the recoveries: the table only shows formatted percentages, the export keeps the raw counts
+ */
+const RECOVERY_EXPORT_FIELDS = [
+  'index',
+  'shard',
+  'type',
+  'stage',
+  'source_node',
+  'target_node',
+  'files_percent',
+  'files_recovered',
+  'files_total',
+  'bytes_percent',
+  'bytes_recovered',
+  'bytes_total',
+  'bytes_reused',
+  'translog_percent',
+  'translog_recovered',
+  'translog_total',
+  'time',
+];
+
+/**
+ * Reads a query parameter of a URL search string
+ */
+const getUrlParam = (search: string, key: string): string | null => new URLSearchParams(search).get(key);
+
 /**
  * Main monitoring application component that displays cluster health, nodes, and recovery information
  */
 export const MonitoringApp = ({
-  basename,
+  history,
   notifications,
   http,
   navigation,
+  panels,
 }: MonitoringAppDeps) => {
 
   // Helper functions for localStorage
@@ -265,27 +318,155 @@ export const MonitoringApp = ({
 
   // State management
   const [nodesData, setNodesData] = useState<ClusterNode[]>([]);
-  const [recoveryData, setRecoveryData] = useState<ClusterIndex[]>([]);
+  const [recoveryData, setRecoveryData] = useState<ShardRecovery[]>([]);
   const [clusterHealth, setClusterHealth] = useState<ClusterHealth | null>(null);
   const [clusterStats, setClusterStats] = useState<ClusterStats | null>(null);
   const [clusterConfig, setClusterConfig] = useState<ClusterConfig | null>(null);
   const [snapshotsData, setSnapshotsData] = useState<Snapshot[]>([]);
   const [snapshotsLoading, setSnapshotsLoading] = useState(false);
+  const [snapshotRepositories, setSnapshotRepositories] = useState<SnapshotRepository[]>([]);
+  const [snapshotRepositoriesLoading, setSnapshotRepositoriesLoading] = useState(false);
+  const [indicesData, setIndicesData] = useState<IndexStats[]>([]);
+  const [indicesLoading, setIndicesLoading] = useState(false);
+  const [threadPoolsData, setThreadPoolsData] = useState<{
+    pools: ThreadPoolStats[];
+    interval_in_millis: number | null;
+  }>({ pools: [], interval_in_millis: null });
+  const [threadPoolsLoading, setThreadPoolsLoading] = useState(false);
+  const [pendingTasksData, setPendingTasksData] = useState<PendingTask[]>([]);
+  const [tasksData, setTasksData] = useState<Task[]>([]);
+  const [tasksLoading, setTasksLoading] = useState(false);
+  const [historyData, setHistoryData] = useState<HistorySample[]>([]);
+  const [alertsData, setAlertsData] = useState<{ active: Alert[]; history: Alert[] }>({
+    active: [],
+    history: [],
+  });
+  const [historyRange, setHistoryRange] = useState(
+    getLocalStorageItem(`${PLUGIN_ID}.historyRange`, 60)
+  );
   const [loading, setLoading] = useState(false);
-  const [hideDone, setHideDone] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('-stage:DONE');
-  const [autoRefresh, setAutoRefresh] = useState(
-    getLocalStorageItem(`${PLUGIN_ID}.autoRefresh`, false)
+  const [isUnassignedFlyoutOpen, setIsUnassignedFlyoutOpen] = useState(false);
+  const [shardsData, setShardsData] = useState<Shard[]>([]);
+  const [upgradeStatus, setUpgradeStatus] = useState<UpgradeStatus | null>(null);
+  const [upgradeStatusLoading, setUpgradeStatusLoading] = useState(false);
+  const [showShards, setShowShards] = useState(
+    getLocalStorageItem(`${PLUGIN_ID}.showShards`, false)
+  );
+  const [graphMetric, setGraphMetric] = useState<GraphMetric>(
+    getLocalStorageItem(`${PLUGIN_ID}.graphMetric`, 'cpu')
   );
-  const [refreshInterval, setRefreshInterval] = useState(
-    getLocalStorageItem(`${PLUGIN_ID}.refreshInterval`, 30)
+  // Attributes grouping the graph, outermost first (null for the allocation awareness attributes)
+  const [graphGroupBy, setGraphGroupBy] = useState<string[] | null>(
+    getLocalStorageItem(`${PLUGIN_ID}.graphGroupBy`, null)
   );
-  const [isIntervalValid, setIsIntervalValid] = useState(true);
+  const [awarenessAttributes, setAwarenessAttributes] = useState<string[]>([]);
+  // An auto-refresh set in the URL (`refresh=<seconds>` or `refresh=off`) wins over the stored one
+  const [autoRefresh, setAutoRefresh] = useState(() => {
+    const refresh = getUrlParam(history.location.search, 'refresh');
+    return refresh ? refresh !== 'off' : getLocalStorageItem(`${PLUGIN_ID}.autoRefresh`, false);
+  });
+  const [refreshInterval, setRefreshInterval] = useState(() => {
+    const refresh = parseInt(getUrlParam(history.location.search, 'refresh') ?? '', 10);
+    return Number.isNaN(refresh) ? getLocalStorageItem(`${PLUGIN_ID}.refreshInterval`, 30) : refresh;
+  });
+  const [isIntervalValid, setIsIntervalValid] = useState(refreshInterval >= 30);
   const [lastRefreshTime, setLastRefreshTime] = useState<string>('');
+  // Bumped by the polling timer only: stream pushes must not refetch the views keyed on it (fleet, node, panels)
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [isStreaming, setIsStreaming] = useState(false);
 
   const [clusterHealthLoading, setClusterHealthLoading] = useState(false);
   const [clusterStatsLoading, setClusterStatsLoading] = useState(false);
   const [clusterConfigLoading, setClusterConfigLoading] = useState(false);
+  const [nodeWatermarks, setNodeWatermarks] = useState<Record<string, NodeWatermarks>>({});
+  const [watermarksLoading, setWatermarksLoading] = useState(false);
+  const [dataSources, setDataSources] = useState<DataSource[]>([]);
+  // A cluster set in the URL (`dataSourceId=<id>`, empty for the local cluster) wins over the stored one
+  const [dataSourceId, setDataSourceId] = useState<string>(
+    () => getUrlParam(history.location.search, 'dataSourceId') ?? getLocalStorageItem(`${PLUGIN_ID}.dataSourceId`, '')
+  );
+
+  // Query sent to every cluster-scoped route, empty for the local cluster
+  const dataSourceQuery = useMemo(() => (dataSourceId ? { dataSourceId } : {}), [dataSourceId]);
+
+  // Client given to the extra panels
+  const monitoringClient = useMemo(() => new MonitoringClient(http), [http]);
+
+  // Permissions of the current user on the selected cluster, null until checked
+  const [permissions, setPermissions] = useState<Permissions | null>(null);
+
+  // Missing permissions by route path, unavailable routes are not fetched
+  const unavailableRoutes = useMemo(() => permissions?.unavailable ?? {}, [permissions]);
+
+  // Location of the app: the tab is the path, the table search (q) and sort order of the tab are query parameters
+  const [location, setLocation] = useState(history.location);
+  useEffect(() => history.listen((newLocation) => setLocation(newLocation)), [history]);
+
+  /**
+   * Updates query parameters of the URL without adding a history entry
+   * @param changes - New values, null removes the parameter
+   */
+  const setUrlParams = useCallback((changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(history.location.search);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    });
+    history.replace({ ...history.location, search: params.toString() });
+  }, [history]);
+
+  // Keeps the auto-refresh and the cluster in the URL, so that shared links open the same view
+  useEffect(() => {
+    setUrlParams({ refresh: autoRefresh ? String(refreshInterval) : 'off', dataSourceId });
+  }, [autoRefresh, refreshInterval, dataSourceId, setUrlParams, location.pathname]);
+
+  /**
+   * Opens a tab, keeping the auto-refresh and the cluster but not the table search and sort of the previous tab
+   * @param path - Path of the tab
+   */
+  const openTab = (path: string) => {
+    const params = new URLSearchParams(history.location.search);
+    const kept = new URLSearchParams();
+    ['refresh', 'dataSourceId'].forEach(key => {
+      const value = params.get(key);
+      if (value !== null) kept.set(key, value);
+    });
+    history.push({ pathname: path, search: kept.toString() });
+  };
+
+  /**
+   * Returns the props of a link to a page of the app, opened without reloading unless modified
+   * @param path - Path of the page
+   */
+  const getLinkProps = (path: string) => ({
+    href: history.createHref({ pathname: path }),
+    onClick: (e: React.MouseEvent) => {
+      if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      openTab(path);
+    },
+  });
+
+  /**
+   * Returns the search and sort props of the table of the current tab, kept in the URL
+   * @param defaultQuery - Search used when the URL has none
+   * @param defaultSort - Sort order used when the URL has none
+   */
+  const getTableUrlState = (defaultQuery: string, defaultSort: TableSort) => {
+    const query = getUrlParam(location.search, 'q') ?? defaultQuery;
+    const [field, direction] = (getUrlParam(location.search, 'sort') ?? '').split(':');
+    const sort: TableSort = field ? { field, direction: direction === 'desc' ? 'desc' : 'asc' } : defaultSort;
+
+    return {
+      query,
+      sorting: { sort },
+      onTableChange: ({ sort: newSort }: { sort?: { field: keyof any; direction: 'asc' | 'desc' } }) => {
+        if (newSort) setUrlParams({ sort: `${String(newSort.field)}:${newSort.direction}` });
+      },
+      onQueryChange: ({ query: newQuery }: { query: { text: string } | null }) =>
+        setUrlParams({ q: newQuery ? newQuery.text : '' }),
+    };
+  };
 
   const setAutoRefreshPersisted = (value: boolean) => {
     setAutoRefresh(value);
@@ -297,6 +478,69 @@ export const MonitoringApp = ({
     setLocalStorageItem(`${PLUGIN_ID}.refreshInterval`, value);
   };
 
+  const setShowShardsPersisted = (value: boolean) => {
+    setShowShards(value);
+    setLocalStorageItem(`${PLUGIN_ID}.showShards`, value);
+  };
+
+  const setGraphMetricPersisted = (value: GraphMetric) => {
+    setGraphMetric(value);
+    setLocalStorageItem(`${PLUGIN_ID}.graphMetric`, value);
+  };
+
+  const setGraphGroupByPersisted = (value: string[] | null) => {
+    setGraphGroupBy(value);
+    setLocalStorageItem(`${PLUGIN_ID}.graphGroupBy`, value);
+  };
+
+  const setDataSourceIdPersisted = (value: string) => {
+    setDataSourceId(value);
+    setLocalStorageItem(`${PLUGIN_ID}.dataSourceId`, value);
+  };
+
+  const setHistoryRangePersisted = (value: number) => {
+    setHistoryRange(value);
+    setLocalStorageItem(`${PLUGIN_ID}.historyRange`, value);
+  };
+
+  // Time ranges (in minutes) offered for the metrics history charts
+  const historyRangeOptions = [
+    { value: 15, text: 'Last 15 minutes' },
+    { value: 60, text: 'Last hour' },
+    { value: 360, text: 'Last 6 hours' },
+    { value: 1440, text: 'Last 24 hours' },
+  ];
+
+  /**
+   * Renders the content of a panel, or the permissions it is missing when one of its routes is unavailable
+   * @param routes - Routes the panel is built from
+   * @param content - Panel content
+   */
+  const renderIfPermitted = (routes: string[], content: React.ReactNode) => {
+    const missing = routes.reduce<string[]>((acc, route) => {
+      (unavailableRoutes[route] ?? []).forEach(permission => {
+        if (!acc.includes(permission)) acc.push(permission);
+      });
+      return acc;
+    }, []);
+    return missing.length > 0 ? <MissingPermissions permissions={missing} /> : content;
+  };
+
+  /**
+   * Applies a table search query to its rows, as the table does, to export what is displayed
+   * @param rows - Table rows
+   * @param query - Search query text
+   * @returns Rows matching the query (all rows while the query is invalid)
+   */
+  const filterRows = <T,>(rows: T[], query: string): T[] => {
+    if (!query) return rows;
+    try {
+      return EuiSearchBar.Query.execute(EuiSearchBar.Query.parse(query), rows);
+    } catch (error) {
+      return rows;
+    }
+  };
+
   const VerticalSeparator = () => (
     <div style={{
       borderLeft: '1px solid #d3dae6',
@@ -370,6 +614,14 @@ export const MonitoringApp = ({
     return parts.join(' ');
   };
 
+  /**
+   * Formats a cumulative GC time, keeping sub-second values readable
+   * @param millis - GC time in milliseconds
+   * @returns string - Formatted duration string
+   */
+  const formatGcTime = (millis: number): string =>
+    millis < 1000 ? `${millis} ms` : formatDuration(millis, 's');
+
   /**
    * Determines the color for resource usage based on percentage
    * @param percent - Usage percentage
@@ -381,6 +633,37 @@ export const MonitoringApp = ({
     return '#FF6666';
   };
 
+  /**
+   * Determines the color for disk usage based on the disk watermark the node has reached
+   * @param level - Highest watermark exceeded by the node
+   * @returns string - Color code
+   */
+  const getWatermarkColor = (level: WatermarkLevel): '#159D8D' | '#FFCE7A' | '#FF6666' => {
+    if (level === 'ok') return '#159D8D';
+    if (level === 'low') return '#FFCE7A';
+    return '#FF6666';
+  };
+
+  const watermarkLabels: Record<Exclude<WatermarkLevel, 'ok'>, string> = {
+    low: 'low watermark',
+    high: 'high watermark',
+    flood_stage: 'flood stage',
+  };
+
+  /**
+   * Describes the headroom of a node before its next disk watermark
+   * @param node - Disk watermarks of the node
+   * @returns string - Annotation for the filesystem column
+   */
+  const describeWatermarkHeadroom = (node: NodeWatermarks): string => {
+    const next = (['low', 'high', 'flood_stage'] as const).find(
+      name => node.watermarks[name] && node.watermarks[name]!.headroom > 0
+    );
+    if (!next) return node.level === 'ok' ? '' : `Past ${watermarkLabels[node.level]}`;
+    const past = node.level === 'ok' ? '' : `Past ${watermarkLabels[node.level]}, `;
+    return `${past}${formatBytes(node.watermarks[next]!.headroom)} to ${watermarkLabels[next]}`;
+  };
+
   /**
    * Determines the color for recovery progress based on percentage
    * @param percent - Recovery percentage
@@ -428,144 +711,399 @@ export const MonitoringApp = ({
   };
 
   // Data fetching functions
-  const fetchConfig = useCallback(async () => {
+  const fetchPermissions = useCallback(async () => {
+    try {
+      const res = await http.get(`/api/${PLUGIN_ID}/permissions`, { query: dataSourceQuery });
+      setPermissions(res);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to check permissions',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+      // Fetch every panel anyway, each one reports its own error
+      setPermissions({ permissions: [], unavailable: {} });
+    }
+  }, [http, notifications, dataSourceQuery]);
+
+  // Permissions are checked once per cluster, before fetching the panels
+  useEffect(() => {
+    setPermissions(null);
+    fetchPermissions();
+  }, [fetchPermissions]);
+
+  const fetchOverview = useCallback(async () => {
     try {
+      setLoading(true);
+      setClusterHealthLoading(true);
+      setClusterStatsLoading(true);
       setClusterConfigLoading(true);
-      const res = await http.get(`/api/${PLUGIN_ID}/config`);
-      setClusterConfig(res.data);
+      setSnapshotsLoading(true);
+      const res = await http.get(`/api/${PLUGIN_ID}/overview`, { query: dataSourceQuery });
+
+      // Parts failing on a permission that is already known to be missing are not reported again
+      const routes: Record<string, string> = {
+        health: '/cluster_health',
+        stats: '/cluster_stats',
+        nodes: '/nodes_stats',
+        recovery: '/recovery',
+        snapshots: '/snapshots',
+      };
+      Object.entries(res.errors as Record<string, { message: string }>).forEach(([part, error]) => {
+        if (unavailableRoutes[routes[part]]) return;
+        notifications.toasts.addDanger({
+          title: `Failed to fetch ${part}`,
+          text: error.message || 'An unexpected error occurred',
+        });
+      });
+
+      if (res.health) setClusterHealth(res.health);
+      if (res.stats) setClusterStats(res.stats);
+      if (res.nodes) setNodesData(res.nodes);
+      if (res.recovery) setRecoveryData(res.recovery);
+      setSnapshotsData(res.snapshots?.snapshots ?? []);
+      setClusterConfig(res.config);
+      setLastRefreshTime(new Date(res.timestamp).toLocaleTimeString());
     } catch (err) {
       notifications.toasts.addDanger({
-        title: 'Failed to fetch configuration',
+        title: 'Failed to fetch cluster overview',
         text: err?.body?.message || 'An unexpected error occurred',
       });
     } finally {
+      setLoading(false);
+      setClusterHealthLoading(false);
+      setClusterStatsLoading(false);
       setClusterConfigLoading(false);
+      setSnapshotsLoading(false);
     }
-  }, [http, notifications]);
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
 
-  const fetchCluster = useCallback(async () => {
+  const fetchWatermarks = useCallback(async () => {
+    if (unavailableRoutes['/disk_watermarks']) return;
     try {
-      setClusterHealthLoading(true);
-      const res = await http.get(`/api/${PLUGIN_ID}/cluster_health`);
-      setClusterHealth(res.data);
+      setWatermarksLoading(true);
+      const res = await http.get(`/api/${PLUGIN_ID}/disk_watermarks`, { query: dataSourceQuery });
+      setNodeWatermarks(
+        res.nodes.reduce((acc: Record<string, NodeWatermarks>, node: NodeWatermarks) => {
+          acc[node.id] = node;
+          return acc;
+        }, {})
+      );
     } catch (err) {
       notifications.toasts.addDanger({
-        title: 'Failed to fetch cluster data',
+        title: 'Failed to fetch disk watermarks',
         text: err?.body?.message || 'An unexpected error occurred',
       });
     } finally {
-      setClusterHealthLoading(false);
+      setWatermarksLoading(false);
     }
-  }, [http, notifications]);
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
 
-  const fetchNodes = useCallback(async () => {
+  const fetchAwarenessAttributes = useCallback(async () => {
+    if (unavailableRoutes['/awareness_attributes']) return;
     try {
-      setLoading(true);
-      const nodes = await http.get(`/api/${PLUGIN_ID}/nodes_stats`);
-      setNodesData(nodes);
+      const res = await http.get(`/api/${PLUGIN_ID}/awareness_attributes`, { query: dataSourceQuery });
+      setAwarenessAttributes(res.attributes);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch allocation awareness attributes',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    }
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
+
+  /**
+   * Fetches the repositories with their recent snapshots
+   * @param size - Number of snapshots per repository (server default when omitted)
+   */
+  const fetchSnapshotHistory = useCallback(async (size?: number) => {
+    if (
+      unavailableRoutes['/snapshot_repositories'] ||
+      unavailableRoutes['/snapshot_repositories/{repository}/snapshots']
+    ) return;
+    try {
+      setSnapshotRepositoriesLoading(true);
+      const repositories = await http.get(`/api/${PLUGIN_ID}/snapshot_repositories`, { query: dataSourceQuery });
+      const withSnapshots = await Promise.all(
+        repositories.map(async (repository: Omit<SnapshotRepository, 'snapshots' | 'last_success'>) => ({
+          ...repository,
+          ...(await http.get(
+            `/api/${PLUGIN_ID}/snapshot_repositories/${encodeURIComponent(repository.name)}/snapshots`,
+            { query: size ? { ...dataSourceQuery, size } : dataSourceQuery }
+          )),
+        }))
+      );
+      setSnapshotRepositories(withSnapshots);
     } catch (err) {
       notifications.toasts.addDanger({
-        title: 'Failed to fetch nodes data',
+        title: 'Failed to fetch snapshot history',
         text: err?.body?.message || 'An unexpected error occurred',
       });
     } finally {
-      setLoading(false);
+      setSnapshotRepositoriesLoading(false);
     }
-  }, [http, notifications]);
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
 
-  const fetchRecovery = useCallback(async () => {
+  const fetchIndices = useCallback(async () => {
+    if (unavailableRoutes['/indices']) return;
     try {
-      setLoading(true);
-      const recovData = await http.get(`/api/${PLUGIN_ID}/recovery`);
-      setRecoveryData(recovData);
+      setIndicesLoading(true);
+      const indices = await http.get(`/api/${PLUGIN_ID}/indices`, { query: dataSourceQuery });
+      setIndicesData(indices);
     } catch (err) {
       notifications.toasts.addDanger({
-        title: 'Failed to fetch recovery data',
+        title: 'Failed to fetch indices',
         text: err?.body?.message || 'An unexpected error occurred',
       });
     } finally {
-      setLoading(false);
+      setIndicesLoading(false);
     }
-  }, [http, notifications]);
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
 
-  const fetchClusterStats = useCallback(async () => {
+  const fetchThreadPools = useCallback(async () => {
+    if (unavailableRoutes['/thread_pools']) return;
     try {
-      setClusterStatsLoading(true);
-      const parsedData = await http.get(`/api/${PLUGIN_ID}/cluster_stats`);
-      setClusterStats(parsedData);
+      setThreadPoolsLoading(true);
+      const res = await http.get(`/api/${PLUGIN_ID}/thread_pools`, { query: dataSourceQuery });
+      setThreadPoolsData(res);
     } catch (err) {
       notifications.toasts.addDanger({
-        title: 'Failed to fetch cluster stats',
+        title: 'Failed to fetch thread pools',
         text: err?.body?.message || 'An unexpected error occurred',
       });
     } finally {
-      setClusterStatsLoading(false);
+      setThreadPoolsLoading(false);
     }
-  }, [http, notifications]);
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
 
-  const fetchSnapshots = useCallback(async () => {
+  const fetchTasks = useCallback(async () => {
+    if (unavailableRoutes['/pending_tasks'] || unavailableRoutes['/tasks']) return;
     try {
-      setSnapshotsLoading(true);
-      const response = await http.get(`/api/${PLUGIN_ID}/snapshots`);
-      
-      if (response?.snapshots) {
-        setSnapshotsData(response.snapshots);
-      } else {
-        notifications.toasts.addWarning({
-          title: 'No snapshot data available',
-          text: 'The snapshots API returned no data',
+      setTasksLoading(true);
+      const [pending, tasks] = await Promise.all([
+        http.get(`/api/${PLUGIN_ID}/pending_tasks`, { query: dataSourceQuery }),
+        http.get(`/api/${PLUGIN_ID}/tasks`, { query: dataSourceQuery }),
+      ]);
+      setPendingTasksData(pending);
+      setTasksData(tasks);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch tasks',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    } finally {
+      setTasksLoading(false);
+    }
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
+
+  /**
+   * Cancels a running task and refreshes the task list
+   * @param task - The task to cancel
+   */
+  const cancelTask = async (task: Task) => {
+    try {
+      await http.post(`/api/${PLUGIN_ID}/tasks/${encodeURIComponent(task.id)}/_cancel`, {
+        query: dataSourceQuery,
+      });
+      notifications.toasts.addSuccess({
+        title: `Task ${task.id} cancelled`,
+      });
+    } catch (err) {
+      // The cancel permission has no read-only probe: disable cancelling once it is denied
+      if (err?.body?.statusCode === 403) {
+        setPermissions(prev => prev && {
+          ...prev,
+          unavailable: { ...prev.unavailable, '/tasks/{taskId}/_cancel': err.body.attributes?.permissions ?? [] },
         });
-        setSnapshotsData([]);
       }
+      notifications.toasts.addDanger({
+        title: `Failed to cancel task ${task.id}`,
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    }
+    await fetchTasks();
+  };
+
+  const fetchShards = useCallback(async () => {
+    // Shards are only needed by the graph allocation map
+    if (!showShards) return;
+    if (unavailableRoutes['/shards']) return;
+
+    try {
+      const shards = await http.get(`/api/${PLUGIN_ID}/shards`, { query: dataSourceQuery });
+      setShardsData(shards);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch shards',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    }
+  }, [http, notifications, dataSourceQuery, showShards, unavailableRoutes]);
+
+  const fetchUpgradeStatus = useCallback(async () => {
+    if (unavailableRoutes['/upgrade_status']) return;
+    try {
+      setUpgradeStatusLoading(true);
+      const res = await http.get(`/api/${PLUGIN_ID}/upgrade_status`, { query: dataSourceQuery });
+      setUpgradeStatus(res);
     } catch (err) {
       notifications.toasts.addDanger({
-        title: 'Failed to fetch snapshots',
-        text: err?.body?.message || err.message || 'An unexpected error occurred',
+        title: 'Failed to fetch upgrade status',
+        text: err?.body?.message || 'An unexpected error occurred',
       });
-      setSnapshotsData([]);
     } finally {
-      setSnapshotsLoading(false);
+      setUpgradeStatusLoading(false);
+    }
+  }, [http, notifications, dataSourceQuery, unavailableRoutes]);
+
+  const fetchHistory = useCallback(async () => {
+    // Collected on the local cluster only
+    if (dataSourceId || unavailableRoutes['/history']) return;
+    try {
+      const res = await http.get(`/api/${PLUGIN_ID}/history`, {
+        query: { from: Date.now() - historyRange * 60 * 1000 },
+      });
+      setHistoryData(res.data);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch metrics history',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    }
+  }, [http, notifications, historyRange, dataSourceId, unavailableRoutes]);
+
+  const fetchAlerts = useCallback(async () => {
+    // Evaluated on the local cluster only
+    if (dataSourceId || unavailableRoutes['/alerts']) return;
+    try {
+      const res = await http.get(`/api/${PLUGIN_ID}/alerts`);
+      setAlertsData(res.data);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch alerts',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
+    }
+  }, [http, notifications, dataSourceId, unavailableRoutes]);
+
+  const fetchDataSources = useCallback(async () => {
+    try {
+      const res = await http.get(`/api/${PLUGIN_ID}/data_sources`);
+      setDataSources(res);
+    } catch (err) {
+      notifications.toasts.addDanger({
+        title: 'Failed to fetch data sources',
+        text: err?.body?.message || 'An unexpected error occurred',
+      });
     }
   }, [http, notifications]);
 
+  // Data sources are only listed once, they rarely change while the page is open
+  useEffect(() => {
+    fetchDataSources();
+  }, [fetchDataSources]);
+
+  // Falls back to the local cluster when the stored data source no longer exists
+  useEffect(() => {
+    if (dataSourceId && dataSources.length > 0 && !dataSources.some(source => source.id === dataSourceId)) {
+      setDataSourceIdPersisted('');
+    }
+  }, [dataSources, dataSourceId]);
+
+  // Search and sort of the table of each tab
+  const nodesTable = getTableUrlState('', { field: 'name', direction: 'asc' });
+  const recoveryTable = getTableUrlState('-stage:DONE', { field: 'index', direction: 'asc' });
+  const snapshotsTable = getTableUrlState('', { field: 'stats.start_time_in_millis', direction: 'desc' });
+  const indicesTable = getTableUrlState('', { field: 'store.total', direction: 'desc' });
+  const hideDone = recoveryTable.query === '-stage:DONE';
+
   /**
    * Toggles the display of completed recovery items
    */
   const toggleHideDone = () => {
-    const newHideDone = !hideDone;
-    setHideDone(newHideDone);
-    setSearchQuery(newHideDone ? '-stage:DONE' : '');
+    setUrlParams({ q: hideDone ? '' : '-stage:DONE' });
   };
 
   /**
    * Compares configured nodes with actual nodes to find differences
-   * @param configNodes - Array of configured node names
+   * @param configNodes - Array of configured nodes
    * @param actualNodes - Array of actual cluster nodes
-   * @returns Object with missingNodes and extraNodes arrays
+   * @returns Object with missingNodes, extraNodes and driftedNodes arrays
    */
-  const getNodeDifferences = (configNodes: string[], actualNodes: ClusterNode[]) => {
+  const getNodeDifferences = (configNodes: ExpectedNode[], actualNodes: ClusterNode[]) => {
+    const configNodeNames = configNodes.map(node => node.name);
     const actualNodeNames = actualNodes.map(node => node.name);
-    const missingNodes = configNodes.filter(name => !actualNodeNames.includes(name));
-    const extraNodes = actualNodeNames.filter(name => !configNodes.includes(name));
+    const missingNodes = configNodeNames.filter(name => !actualNodeNames.includes(name));
+    const extraNodes = actualNodeNames.filter(name => !configNodeNames.includes(name));
+
+    const driftedNodes: NodeDrift[] = [];
+    configNodes.forEach(expected => {
+      const actual = actualNodes.find(node => node.name === expected.name);
+      if (!actual) return;
+
+      const actualRoles = [...actual.roles].sort().join(', ');
+      if (expected.roles && expected.roles.join(', ') !== actualRoles) {
+        driftedNodes.push({ name: expected.name, field: 'roles', expected: expected.roles.join(', '), actual: actualRoles });
+      }
+      if (expected.zone && expected.zone !== actual.zone) {
+        driftedNodes.push({ name: expected.name, field: 'zone', expected: expected.zone, actual: actual.zone || 'none' });
+      }
+      if (expected.host && expected.host !== actual.host) {
+        driftedNodes.push({ name: expected.name, field: 'host', expected: expected.host, actual: actual.host });
+      }
+    });
 
-    return { missingNodes, extraNodes };
+    return { missingNodes, extraNodes, driftedNodes };
   };
 
-  // Effect for auto-refreshing data
+  // The expected topology describes the local cluster only
+  const expectedNodes = !dataSourceId ? clusterConfig?.nodes ?? [] : [];
+  const nodeDifferences = getNodeDifferences(expectedNodes, nodesData);
+
+  // Drift warnings indexed by node name, shown in the nodes table and the graph
+  const nodeDriftWarnings = nodeDifferences.driftedNodes.reduce<Record<string, string[]>>((acc, drift) => {
+    if (!acc[drift.name]) acc[drift.name] = [];
+    acc[drift.name].push(`Expected ${drift.field} ${drift.expected}, found ${drift.actual}`);
+    return acc;
+  }, {});
+
+  // The graph is grouped by the allocation awareness attributes (or by zone) unless another grouping was picked
+  const defaultGraphGroupBy = useMemo(
+    () => (awarenessAttributes.length > 0 ? awarenessAttributes : ['zone']),
+    [awarenessAttributes]
+  );
+  const effectiveGraphGroupBy = graphGroupBy ?? defaultGraphGroupBy;
+  const nodeAttributeNames = Array.from(
+    new Set([...nodesData.flatMap(node => Object.keys(node.attributes ?? {})), ...effectiveGraphGroupBy])
+  ).sort();
+
+  const { pathname } = location;
+
+  // Effect for auto-refreshing data: only the panels of the open tab are fetched.
+  // The overview is fetched on every tab, it drives the last update time; each tick also refreshes the views
+  // fetching their own data (fleet, node page, registered panels).
   useEffect(() => {
     let intervalId: NodeJS.Timeout;
 
+    // Waits for the permissions check to skip the unavailable panels
+    if (!permissions) return;
+
+    const tabFetchers: Record<string, (() => Promise<void>)[]> = {
+      // The failed snapshots stat only needs the last snapshot of each repository
+      '/': [fetchWatermarks, fetchIndices, fetchTasks, fetchUpgradeStatus, fetchHistory, () => fetchSnapshotHistory(1)],
+      '/nodes': [fetchWatermarks, fetchThreadPools],
+      '/snapshots': [fetchSnapshotHistory],
+      '/topology': [fetchShards],
+    };
+    const fetchers = [
+      fetchOverview,
+      // The alerts banner is shown above every cluster tab
+      ...(pathname !== '/fleet' ? [fetchAlerts] : []),
+      ...(tabFetchers[pathname] ?? []),
+    ];
+
     const fetchAllData = async () => {
       try {
-        await Promise.all([
-          fetchCluster(),
-          fetchNodes(),
-          fetchRecovery(),
-          fetchClusterStats(),
-          fetchConfig(),
-          fetchSnapshots()
-        ]);
-        setLastRefreshTime(new Date().toLocaleTimeString());
+        await Promise.all(fetchers.map(fetcher => fetcher()));
       } catch (error) {
         console.error('Error refreshing data:', error);
       }
@@ -574,28 +1112,101 @@ export const MonitoringApp = ({
     // Initial fetch
     fetchAllData();
 
-    // Set up interval if autoRefresh is enabled
+    // Set up interval if autoRefresh is enabled, skipping refreshes while the tab is hidden
     if (autoRefresh && isIntervalValid) {
-      intervalId = setInterval(fetchAllData, refreshInterval * 1000);
+      intervalId = setInterval(() => {
+        if (document.hidden) return;
+        fetchAllData();
+        setRefreshCount(count => count + 1);
+      }, refreshInterval * 1000);
     }
 
     return () => {
       if (intervalId) clearInterval(intervalId);
     };
-  }, [autoRefresh, refreshInterval, isIntervalValid, 
-      fetchCluster, fetchNodes, fetchRecovery, 
-      fetchClusterStats, fetchConfig, fetchSnapshots]);
+  }, [permissions, pathname, autoRefresh, refreshInterval, isIntervalValid,
+      fetchOverview, fetchWatermarks, fetchSnapshotHistory, fetchIndices,
+      fetchThreadPools, fetchTasks, fetchShards, fetchUpgradeStatus, fetchHistory, fetchAlerts]);
+
+  // Awareness attributes rarely change: they are only read when the topology is opened
+  const isTopologyOpen = pathname === '/topology';
+  useEffect(() => {
+    if (permissions && isTopologyOpen) fetchAwarenessAttributes();
+  }, [permissions, isTopologyOpen, fetchAwarenessAttributes]);
+
+  const streamEnabled = clusterConfig?.stream?.enabled ?? false;
+
+  // Effect for live updates: the server pushes health, nodes and recovery changes within seconds.
+  // Polling keeps refreshing every panel, and is the only refresh when streaming is unavailable.
+  useEffect(() => {
+    if (!autoRefresh || !permissions || !streamEnabled || typeof EventSource === 'undefined') return;
+
+    const query = new URLSearchParams(dataSourceQuery).toString();
+    const source = new EventSource(
+      http.basePath.prepend(`/api/${PLUGIN_ID}/stream${query ? `?${query}` : ''}`)
+    );
+
+    const listen = <T,>(event: string, update: (data: T) => void) => {
+      source.addEventListener(event, (e) => {
+        const { timestamp, data } = JSON.parse((e as MessageEvent).data);
+        update(data);
+        setLastRefreshTime(new Date(timestamp).toLocaleTimeString());
+      });
+    };
+    if (!unavailableRoutes['/cluster_health']) listen<ClusterHealth>('health', setClusterHealth);
+    if (!unavailableRoutes['/nodes_stats']) listen<ClusterNode[]>('nodes', setNodesData);
+    if (!unavailableRoutes['/recovery']) listen<ShardRecovery[]>('recovery', setRecoveryData);
+
+    source.onopen = () => setIsStreaming(true);
+    // The browser reconnects by itself, unless the route is unavailable (closed source)
+    source.onerror = () => setIsStreaming(false);
+
+    return () => {
+      source.close();
+      setIsStreaming(false);
+    };
+  }, [autoRefresh, permissions, streamEnabled, dataSourceQuery, unavailableRoutes, http]);
 
   // Table columns configuration
   const nodesColumns: EuiBasicTableColumn<ClusterNode>[] = [
-    { field: 'name', name: 'Node Name', sortable: true },
+    {
+      field: 'name',
+      name: 'Node Name',
+      sortable: true,
+      render: (name: string, node: ClusterNode) => (
+        <span>
+          <EuiLink {...getLinkProps(`/nodes/${encodeURIComponent(node.id)}`)}>{name}</EuiLink>
+          {nodeDriftWarnings[name] && (
+            <EuiToolTip
+              content={
+                <ul>
+                  {nodeDriftWarnings[name].map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              }
+            >
+              <EuiIcon type='alert' color='warning' style={{ marginLeft: '5px' }} />
+            </EuiToolTip>
+          )}
+        </span>
+      ),
+    },
     { field: 'host', name: 'Host', sortable: true },
     {
       field: 'roles',
       name: 'Roles',
       render: (roles: string[]) => <div style={{ whiteSpace: 'pre-line' }}>{roles.join('\n')}</div>
     },
-    { field: 'zone', name: 'Zone', sortable: true },
+    { field: 'zone', name: 'Zone', sortable: true, render: (zone: string | null) => zone ?? '-' },
+    {
+      field: 'version',
+      name: 'Version',
+      sortable: true,
+      render: (version: string | null, node: ClusterNode) => (
+        <EuiToolTip content={`JVM ${node.jvm.version ?? 'unknown'}`}>
+          <span>{version ?? '-'}</span>
+        </EuiToolTip>
+      ),
+    },
     {
       field: 'cpu',
       name: 'CPU',
@@ -646,22 +1257,106 @@ export const MonitoringApp = ({
     {
       field: 'fs',
       name: 'Filesystem',
-      render: (fs: { percent: number; used: number; total: number }) => (
-        <div style={{ width: '90%' }}>
+      render: (fs: { percent: number; used: number; total: number }, item: ClusterNode) => {
+        const watermarks = nodeWatermarks[item.id];
+        const progress = (
           <EuiProgress
             value={fs.percent.toFixed(2)}
             max={100}
             size='s'
             valueText={true}
             label={`${formatBytes(fs.used)} / ${formatBytes(fs.total)}`}
-            color={getUsageColor(fs.percent)}
+            color={watermarks ? getWatermarkColor(watermarks.level) : getUsageColor(fs.percent)}
           />
-        </div>
-      ),
+        );
+        if (!watermarks) return <div style={{ width: '90%' }}>{progress}</div>;
+
+        return (
+          <div style={{ width: '90%' }}>
+            <EuiToolTip
+              content={
+                <div>
+                  {(['low', 'high', 'flood_stage'] as const).map(name => {
+                    const watermark = watermarks.watermarks[name];
+                    return watermark ? (
+                      <div key={name}>
+                        {`${watermarkLabels[name]} (${watermark.setting}): ${watermark.percent.toFixed(2)}%, ` +
+                          (watermark.headroom > 0
+                            ? `${formatBytes(watermark.headroom)} left`
+                            : `exceeded by ${formatBytes(-watermark.headroom)}`)}
+                      </div>
+                    ) : null;
+                  })}
+                </div>
+              }
+            >
+              {progress}
+            </EuiToolTip>
+            <EuiText size='xs' color={watermarks.level === 'ok' ? 'subdued' : 'danger'}>
+              {describeWatermarkHeadroom(watermarks)}
+            </EuiText>
+          </div>
+        );
+      },
+    },
+    {
+      field: 'jvm.mem',
+      name: 'JVM Heap',
+      render: (heap: { percent: number; used: number; total: number }) => (
+        <div style={{ width: '90%' }}>
+          <EuiProgress
+            value={heap.percent.toFixed(2)}
+            max={100}
+            size='s'
+            valueText={true}
+            label={`${formatBytes(heap.used)} / ${formatBytes(heap.total)}`}
+            color={getUsageColor(heap.percent)}
+          />
+        </div>
+      ),
+    },
+    {
+      field: 'jvm.gc',
+      name: 'GC (young / old)',
+      render: (gc: ClusterNode['jvm']['gc']) => (
+        <EuiText size='xs'>
+          <div>{`${gc.young.count.toLocaleString()} / ${gc.old.count.toLocaleString()}`}</div>
+          <div style={{ color: '#666' }}>
+            {`${formatGcTime(gc.young.time)} / ${formatGcTime(gc.old.time)}`}
+          </div>
+        </EuiText>
+      ),
+    },
+    {
+      field: 'breakers',
+      name: 'Circuit Breakers',
+      render: (breakers: ClusterNode['breakers']) => (
+        <div style={{ width: '90%' }}>
+          {Object.entries(breakers).map(([name, breaker]) => (
+            <EuiToolTip
+              key={name}
+              content={`${formatBytes(breaker.estimated)} / ${formatBytes(breaker.limit)}, tripped ${breaker.tripped} time${breaker.tripped !== 1 ? 's' : ''}`}
+            >
+              <EuiProgress
+                value={breaker.percent.toFixed(2)}
+                max={100}
+                size='xs'
+                valueText={true}
+                label={
+                  <span style={{ color: breaker.tripped > 0 ? '#FF6666' : undefined }}>
+                    {breaker.tripped > 0 ? `${name} (${breaker.tripped} trips)` : name}
+                  </span>
+                }
+                color={getUsageColor(breaker.percent)}
+              />
+            </EuiToolTip>
+          ))}
+        </div>
+      ),
     },
   ];
 
-  const recoveryColumns: EuiBasicTableColumn<ClusterIndex>[] = [
+  const recoveryColumns: EuiBasicTableColumn<ShardRecovery>[] = [
     { field: 'index', name: 'Index', sortable: true },
     { field: 'shard', name: 'Shard', sortable: true },
     { field: 'type', name: 'Type', sortable: true },
@@ -671,7 +1366,7 @@ export const MonitoringApp = ({
     {
       field: 'files_percent',
       name: 'Files',
-      render: (percent: string, item: ClusterIndex) => {
+      render: (percent: string, item: ShardRecovery) => {
         if (percent === '-') return '-';
         const numeric = parseFloat(percent);
         const label = numeric === 100
@@ -696,7 +1391,7 @@ export const MonitoringApp = ({
     {
       field: 'bytes_percent',
       name: 'Size',
-      render: (percent: string, item: ClusterIndex) => {
+      render: (percent: string, item: ShardRecovery) => {
         if (percent === '-') return '-';
         const numeric = parseFloat(percent);
         const label = numeric === 100
@@ -721,7 +1416,7 @@ export const MonitoringApp = ({
     {
       field: 'translog_percent',
       name: 'Translog',
-      render: (percent: string, item: ClusterIndex) => {
+      render: (percent: string, item: ShardRecovery) => {
         if (percent === '-') return '-';
         const numeric = parseFloat(percent);
         const label = numeric === 100
@@ -753,6 +1448,46 @@ export const MonitoringApp = ({
     },
   ];
 
+  const indicesColumns: EuiBasicTableColumn<IndexStats>[] = [
+    { field: 'index', name: 'Index', sortable: true },
+    {
+      field: 'health',
+      name: 'Health',
+      sortable: true,
+      render: (health: string) => (
+        <span style={{ color: getHealthColor(health) }}>{health}</span>
+      ),
+    },
+    { field: 'status', name: 'Status', sortable: true },
+    { field: 'primaries', name: 'Primaries', sortable: true },
+    { field: 'replicas', name: 'Replicas', sortable: true },
+    {
+      field: 'docs.count',
+      name: 'Documents',
+      render: (count: number) => count.toLocaleString(),
+      sortable: true,
+    },
+    {
+      field: 'docs.deleted',
+      name: 'Deleted Docs',
+      render: (count: number) => count.toLocaleString(),
+      sortable: true,
+    },
+    {
+      field: 'store.primaries',
+      name: 'Primary Size',
+      render: (size: number) => formatBytes(size),
+      sortable: true,
+    },
+    {
+      field: 'store.total',
+      name: 'Total Size',
+      render: (size: number) => formatBytes(size),
+      sortable: true,
+    },
+    { field: 'segments', name: 'Segments', sortable: true },
+  ];
+
   const snapshotsColumns: EuiBasicTableColumn<Snapshot>[] = [
     {
       field: 'snapshot',
@@ -824,525 +1559,708 @@ export const MonitoringApp = ({
     },
   ];
 
-  const renderClusterSection = () => (
-    <EuiFlexGroup>
-      <EuiFlexItem>
-        <EuiPageContent>
-          <EuiPageContentHeader>
-            <EuiTitle size='m'>
-              <h2>
-                <FormattedMessage
-                  id='{PLUGIN_ID}clusterTitle'
-                  defaultMessage='Cluster'
-                />
-              </h2>
-            </EuiTitle>
-          </EuiPageContentHeader>
+  // Nodes where OpenSearch stops allocating shards (high) or blocks writes (flood stage)
+  const nodesPastHighWatermark = Object.values(nodeWatermarks)
+    .filter(node => node.level === 'high' || node.level === 'flood_stage')
+    .sort((a, b) => a.name.localeCompare(b.name));
 
-          <EuiPageContentBody>
-            <EuiFlexGroup wrap gutterSize='xl'>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterHealth ? clusterHealth.cluster_name : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='layers' /> Name
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterHealthLoading}
-                />
-              </EuiFlexItem>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterHealth ? clusterHealth.status : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='pulse' /> Status
+  // Repositories whose most recent snapshot did not fully succeed
+  const failedSnapshotRepositories = snapshotRepositories
+    .filter(repository => ['PARTIAL', 'FAILED'].includes(repository.snapshots[0]?.state))
+    .map(repository => repository.name);
+
+  const renderClusterSection = () => (
+    <EuiPageContent>
+      <EuiPageContentHeader>
+        <EuiTitle size='m'>
+          <h2>
+            <FormattedMessage
+              id='{PLUGIN_ID}clusterTitle'
+              defaultMessage='Cluster'
+            />
+          </h2>
+        </EuiTitle>
+      </EuiPageContentHeader>
+
+      <EuiPageContentBody>
+        {(unavailableRoutes['/cluster_health'] || unavailableRoutes['/cluster_stats']) && (
+          <>
+            {renderIfPermitted(['/cluster_health', '/cluster_stats'], null)}
+            <EuiSpacer size='m' />
+          </>
+        )}
+        <EuiFlexGroup wrap gutterSize='xl'>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterHealth ? clusterHealth.cluster_name : '--'}
+              description={
+                <span>
+                  <EuiIcon type='layers' /> Name
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterHealthLoading}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterHealth ? clusterHealth.status : '--'}
+              description={
+                <span>
+                  <EuiIcon type='pulse' /> Status
+                </span>
+              }
+              
+              titleColor={clusterHealth ? getHealthColor(clusterHealth.status) : 'subdued'}
+              textAlign='left'
+              isLoading={clusterHealthLoading}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats ? formatDuration(clusterStats.uptime, 'm') : '--'}
+              description={
+                <span>
+                  <EuiIcon type='clock' /> Uptime
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={
+                clusterStats ? (
+                  Array.isArray(clusterStats.version) ? (
+                    <span style={{ whiteSpace: 'pre-line', textAlign: 'left' }}>
+                      {clusterStats.version.join('\n')}
                     </span>
-                  }
-                  
-                  titleColor={clusterHealth ? getHealthColor(clusterHealth.status) : 'subdued'}
-                  textAlign='left'
-                  isLoading={clusterHealthLoading}
-                />
-              </EuiFlexItem>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats ? formatDuration(clusterStats.uptime, 'm') : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='clock' /> Uptime
+                  ) : (
+                    clusterStats.version
+                  )
+                ) : '--'
+              }
+              description={
+                <span>
+                  <EuiIcon type='number' /> Version
+                  {clusterStats && Array.isArray(clusterStats.version) && clusterStats.version.length > 1 && (
+                    <span style={{ fontSize: '0.8em', marginLeft: '5px' }}>
+                      ({clusterStats.version.length} versions)
                     </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={
-                    clusterStats ? (
-                      Array.isArray(clusterStats.version) ? (
-                        <span style={{ whiteSpace: 'pre-line', textAlign: 'left' }}>
-                          {clusterStats.version.join('\n')}
-                        </span>
-                      ) : (
-                        clusterStats.version
-                      )
-                    ) : '--'
-                  }
-                  description={
-                    <span>
-                      <EuiIcon type='number' /> Version
-                      {clusterStats && Array.isArray(clusterStats.version) && clusterStats.version.length > 1 && (
-                        <span style={{ fontSize: '0.8em', marginLeft: '5px' }}>
-                          ({clusterStats.version.length} versions)
-                        </span>
-                      )}
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
+                  )}
+                </span>
+              }
               
-              <EuiFlexItem grow={false}>
-                <VerticalSeparator />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={snapshotsData.length}
-                  description={
-                    <span>
-                      <EuiIcon type="exportAction" /> Running Snapshots
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+          
+          <EuiFlexItem grow={false}>
+            <VerticalSeparator />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={snapshotsData.length}
+              description={
+                <span>
+                  <EuiIcon type="exportAction" /> Running Snapshots
+                </span>
+              }
+              descriptionElement="div"
+              titleColor={snapshotsData.length === 0 ? '#159D8D' : '#FFCE7A'}
+              textAlign="left"
+              isLoading={snapshotsLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={failedSnapshotRepositories.length}
+              description={
+                <span>
+                  <EuiIcon type="exportAction" /> Failed Snapshots
+                  {failedSnapshotRepositories.length > 0 && (
+                    <EuiToolTip
+                      position='bottom'
+                      content={`Last snapshot is PARTIAL or FAILED in: ${failedSnapshotRepositories.join(', ')}`}
+                    >
+                      <EuiIcon type='alert' color='danger' style={{ marginLeft: '5px' }} />
+                    </EuiToolTip>
+                  )}
+                </span>
+              }
+              descriptionElement="div"
+              titleColor={failedSnapshotRepositories.length === 0 ? '#159D8D' : '#FF6666'}
+              textAlign="left"
+              isLoading={snapshotRepositoriesLoading}
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+
+        <EuiHorizontalRule margin='s' />
+
+        <EuiPageContentHeader>
+          <EuiTitle size='m'>
+            <h2>
+              <FormattedMessage
+                id='{PLUGIN_ID}nodesTitle'
+                defaultMessage='Nodes'
+              />
+            </h2>
+          </EuiTitle>
+        </EuiPageContentHeader>
+
+        <EuiFlexGroup wrap gutterSize='xl'>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={
+                <div>
+                  <span
+                    style={{
+                      color: expectedNodes.length && clusterStats
+                        ? clusterStats.nodes.total === expectedNodes.length
+                          ? '#159D8D'
+                          : '#FF6666'
+                        : 'subdued',
+                    }}
+                  >
+                    {clusterStats ? clusterStats.nodes.total : '--'}
+                  </span>
+                  {expectedNodes.length > 0 && (
+                    <span style={{ fontSize: '0.5em', color: '#666' }}>
+                      {' '}
+                      / {expectedNodes.length}
                     </span>
-                  }
-                  descriptionElement="div"
-                  titleColor={snapshotsData.length === 0 ? '#159D8D' : '#FFCE7A'}
-                  textAlign="left"
-                  isLoading={snapshotsLoading}
-                />
-              </EuiFlexItem>
-            </EuiFlexGroup>
-
-            <EuiHorizontalRule margin='s' />
-
-            <EuiPageContentHeader>
-              <EuiTitle size='m'>
-                <h2>
-                  <FormattedMessage
-                    id='{PLUGIN_ID}nodesTitle'
-                    defaultMessage='Nodes'
-                  />
-                </h2>
-              </EuiTitle>
-            </EuiPageContentHeader>
-
-            <EuiFlexGroup wrap gutterSize='xl'>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={
-                    <div>
-                      <span
-                        style={{
-                          color: clusterConfig?.nodes?.length && clusterStats
-                            ? clusterStats.nodes.total === clusterConfig.nodes.length
-                              ? '#159D8D'
-                              : '#FF6666'
-                            : 'subdued',
-                        }}
-                      >
-                        {clusterStats ? clusterStats.nodes.total : '--'}
-                      </span>
-                      {clusterConfig?.nodes?.length > 0 && (
-                        <span style={{ fontSize: '0.5em', color: '#666' }}>
-                          {' '}
-                          / {clusterConfig.nodes.length}
-                        </span>
-                      )}
-                    </div>
-                  }
-                  description={
-                    <span>
-                      <EuiIcon type='node' /> Active
-                      {clusterConfig && clusterStats && 
-                      (getNodeDifferences(clusterConfig.nodes, nodesData).missingNodes.length > 0 ||
-                        getNodeDifferences(clusterConfig.nodes, nodesData).extraNodes.length > 0) && (
-                        <EuiToolTip
-                          position='bottom'
-                          content={
+                  )}
+                </div>
+              }
+              description={
+                <span>
+                  <EuiIcon type='node' /> Active
+                  {clusterConfig && clusterStats &&
+                  (nodeDifferences.missingNodes.length > 0 ||
+                    nodeDifferences.extraNodes.length > 0 ||
+                    nodeDifferences.driftedNodes.length > 0) && (
+                    <EuiToolTip
+                      position='bottom'
+                      content={
+                        <div>
+                          {nodeDifferences.missingNodes.length > 0 && (
                             <div>
-                              {getNodeDifferences(clusterConfig.nodes, nodesData).missingNodes.length > 0 && (
-                                <div>
-                                  <strong>Missing nodes:</strong>
-                                  <ul>
-                                    {getNodeDifferences(clusterConfig.nodes, nodesData).missingNodes.map(node => (
-                                      <li key={node}>{node}</li>
-                                    ))}
-                                  </ul>
-                                </div>
-                              )}
-                              {getNodeDifferences(clusterConfig.nodes, nodesData).extraNodes.length > 0 && (
-                                <div>
-                                  <strong>Unexpected nodes:</strong>
-                                  <ul>
-                                    {getNodeDifferences(clusterConfig.nodes, nodesData).extraNodes.map(node => (
-                                      <li key={node}>{node}</li>
-                                    ))}
-                                  </ul>
-                                </div>
-                              )}
+                              <strong>Missing nodes:</strong>
+                              <ul>
+                                {nodeDifferences.missingNodes.map(node => (
+                                  <li key={node}>{node}</li>
+                                ))}
+                              </ul>
                             </div>
-                          }
-                        >
-                          <EuiIcon
-                            type='alert'
-                            color='danger'
-                            style={{ marginLeft: '5px' }}
-                          />
-                        </EuiToolTip>
-                      )}
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  titleElement='div'
-                  isLoading={clusterStatsLoading || clusterConfigLoading}
-                />
-              </EuiFlexItem>
-
-              {clusterStats ? (
-                <>
-                  {renderNodeStat(clusterStats.nodes.cluster_manager, 'Cluster Managers')}
-                  {renderNodeStat(clusterStats.nodes.coordinating_only, 'Coordinating Only')}
-                  {renderNodeStat(clusterStats.nodes.data, 'Data')}
-                  {renderNodeStat(clusterStats.nodes.ingest, 'Ingest')}
-                  {renderNodeStat(clusterStats.nodes.master, 'Master')}
-                  {renderNodeStat(clusterStats.nodes.remote_cluster_client, 'Remote Cluster Client')}
-                  {renderNodeStat(clusterStats.nodes.search, 'Search')}
-                  {renderNodeStat(clusterStats.nodes.warm, 'Warm')}
-                </>
-              ) : (
-                // Show loading placeholders for node stats
-                Array.from({ length: 8 }).map((_, i) => (
-                  <EuiFlexItem grow={false} key={`placeholder-${i}`}>
-                    <EuiStat
-                      title="--"
-                      description={<span><EuiIcon type='node' /> Loading...</span>}
-                      
-                      textAlign='left'
-                      isLoading={true}
-                    />
-                  </EuiFlexItem>
-                ))
-              )}
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={
-                    clusterStats ? (
-                      <div>
-                        <span style={{ color: getUsageColor(clusterStats.fs.percent) }}>
-                          {clusterStats.fs.percent.toFixed(2)}%
-                        </span>
-                        <div style={{ fontSize: '0.5em', color: '#666' }}>
-                          {`${formatBytes(clusterStats.fs.used)} / ${formatBytes(clusterStats.fs.total)}`}
-                        </div>
-                      </div>
-                    ) : '--'
-                  }
-                  description={
-                    <span>
-                      <EuiIcon type='storage' /> Storage Usage
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  titleElement='div'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={
-                    clusterStats ? (
-                      <div>
-                        <span style={{ color: getUsageColor(clusterStats.jvm.mem.percent) }}>
-                          {clusterStats.jvm.mem.percent.toFixed(2)}%
-                        </span>
-                        <div style={{ fontSize: '0.5em', color: '#666' }}>
-                          {`${formatBytes(clusterStats.jvm.mem.used)} / ${formatBytes(clusterStats.jvm.mem.total)}`}
+                          )}
+                          {nodeDifferences.extraNodes.length > 0 && (
+                            <div>
+                              <strong>Unexpected nodes:</strong>
+                              <ul>
+                                {nodeDifferences.extraNodes.map(node => (
+                                  <li key={node}>{node}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          {nodeDifferences.driftedNodes.length > 0 && (
+                            <div>
+                              <strong>Configuration drift:</strong>
+                              <ul>
+                                {nodeDifferences.driftedNodes.map(drift => (
+                                  <li key={`${drift.name}-${drift.field}`}>
+                                    {`${drift.name}: expected ${drift.field} ${drift.expected}, found ${drift.actual}`}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    ) : '--'
-                  }
-                  description={
-                    <span>
-                      <EuiIcon type='memory' /> JVM Heap
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  titleElement='div'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats ? clusterStats.jvm.threads : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='logstashIf' /> JVM Threads
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-            </EuiFlexGroup>
-
-            <EuiHorizontalRule margin='s' />
-
-            <EuiPageContentHeader>
-              <EuiTitle size='m'>
-                <h2>
-                  <FormattedMessage
-                    id='{PLUGIN_ID}shardsTitle'
-                    defaultMessage='Shards'
-                  />
-                </h2>
-              </EuiTitle>
-            </EuiPageContentHeader>
-
-            <EuiFlexGroup wrap gutterSize='xl'>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats?.indices?.shards?.total ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='shard' /> Total Shards
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterHealth?.active_primary_shards?.toString() ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='shard' /> Primary Shards
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterHealthLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterHealth ? (clusterHealth.active_shards - clusterHealth.active_primary_shards).toLocaleString() : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='shard' /> Replica Shards
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterHealthLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats?.indices?.shards?.replication ? `${(clusterStats.indices.shards.replication * 100).toFixed(2)}%` : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='shard' /> Replication Factor
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats?.indices?.segments?.count?.toLocaleString() ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='partial' /> Segments
-                    </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterHealth?.unassigned_shards?.toString() ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='shard' /> Unassigned Shards
-                    </span>
-                  }
-                  
-                  titleColor={clusterHealth?.unassigned_shards > 0 ? '#FF6666' : '#159D8D'}
-                  textAlign='left'
-                  isLoading={clusterHealthLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterHealth?.initializing_shards?.toString() ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='shard' /> Initializing Shards
-                    </span>
-                  }
-                  
-                  titleColor={clusterHealth?.initializing_shards > 0 ? '#FF6666' : '#159D8D'}
-                  textAlign='left'
-                  isLoading={clusterHealthLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
+                      }
+                    >
+                      <EuiIcon
+                        type='alert'
+                        color={
+                          nodeDifferences.missingNodes.length > 0 || nodeDifferences.extraNodes.length > 0
+                            ? 'danger'
+                            : 'warning'
+                        }
+                        style={{ marginLeft: '5px' }}
+                      />
+                    </EuiToolTip>
+                  )}
+                </span>
+              }
+              
+              textAlign='left'
+              titleElement='div'
+              isLoading={clusterStatsLoading || clusterConfigLoading}
+            />
+          </EuiFlexItem>
+
+          {clusterStats ? (
+            <>
+              {renderNodeStat(clusterStats.nodes.cluster_manager, 'Cluster Managers')}
+              {renderNodeStat(clusterStats.nodes.coordinating_only, 'Coordinating Only')}
+              {renderNodeStat(clusterStats.nodes.data, 'Data')}
+              {renderNodeStat(clusterStats.nodes.ingest, 'Ingest')}
+              {renderNodeStat(clusterStats.nodes.master, 'Master')}
+              {renderNodeStat(clusterStats.nodes.remote_cluster_client, 'Remote Cluster Client')}
+              {renderNodeStat(clusterStats.nodes.search, 'Search')}
+              {renderNodeStat(clusterStats.nodes.warm, 'Warm')}
+            </>
+          ) : (
+            // Show loading placeholders for node stats
+            Array.from({ length: 8 }).map((_, i) => (
+              <EuiFlexItem grow={false} key={`placeholder-${i}`}>
                 <EuiStat
-                  title={clusterHealth?.active_shards_percent_as_number ? `${clusterHealth.active_shards_percent_as_number.toFixed(2)}%` : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='shard' /> Active Shards (%)
-                    </span>
-                  }
+                  title="--"
+                  description={<span><EuiIcon type='node' /> Loading...</span>}
                   
-                  titleColor={clusterHealth?.active_shards_percent_as_number < 100 ? '#FF6666' : '#159D8D'}
                   textAlign='left'
-                  isLoading={clusterHealthLoading}
+                  isLoading={true}
                 />
               </EuiFlexItem>
-            </EuiFlexGroup>
-
-            <EuiHorizontalRule margin='s' />
-
-            <EuiPageContentHeader>
-              <EuiTitle size='m'>
-                <h2>
-                  <FormattedMessage
-                    id='{PLUGIN_ID}indicesTitle'
-                    defaultMessage='Indices'
-                  />
-                </h2>
-              </EuiTitle>
-            </EuiPageContentHeader>
-
-            <EuiFlexGroup wrap gutterSize='xl'>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats?.indices?.count ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='indexSettings' /> Total Indices
+            ))
+          )}
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={
+                clusterStats ? (
+                  <div>
+                    <span style={{ color: getUsageColor(clusterStats.fs.percent) }}>
+                      {clusterStats.fs.percent.toFixed(2)}%
                     </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats?.indices?.docs?.count?.toLocaleString() ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='document' /> Documents
-                    </span>
-                  }
-                   
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats?.indices?.docs?.deleted?.toLocaleString() ?? '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='document' /> Deleted Docs
-                    </span>
-                  }
-                   
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-
-              <EuiFlexItem grow={false}>
-                <EuiStat
-                  title={clusterStats?.indices?.store?.size_in_bytes ? formatBytes(clusterStats.indices.store.size_in_bytes) : '--'}
-                  description={
-                    <span>
-                      <EuiIcon type='storage' /> Storage Used
+                    <div style={{ fontSize: '0.5em', color: '#666' }}>
+                      {`${formatBytes(clusterStats.fs.used)} / ${formatBytes(clusterStats.fs.total)}`}
+                    </div>
+                  </div>
+                ) : '--'
+              }
+              description={
+                <span>
+                  <EuiIcon type='storage' /> Storage Usage
+                </span>
+              }
+              
+              textAlign='left'
+              titleElement='div'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={nodesPastHighWatermark.length}
+              description={
+                <span>
+                  <EuiIcon type='storage' /> Past High Watermark
+                  {nodesPastHighWatermark.length > 0 && (
+                    <EuiToolTip
+                      position='bottom'
+                      content={
+                        <ul>
+                          {nodesPastHighWatermark.map(node => (
+                            <li key={node.id}>{`${node.name}: ${watermarkLabels[node.level as 'high' | 'flood_stage']}`}</li>
+                          ))}
+                        </ul>
+                      }
+                    >
+                      <EuiIcon type='alert' color='danger' style={{ marginLeft: '5px' }} />
+                    </EuiToolTip>
+                  )}
+                </span>
+              }
+              titleColor={nodesPastHighWatermark.length === 0 ? '#159D8D' : '#FF6666'}
+              textAlign='left'
+              isLoading={watermarksLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={
+                clusterStats ? (
+                  <div>
+                    <span style={{ color: getUsageColor(clusterStats.jvm.mem.percent) }}>
+                      {clusterStats.jvm.mem.percent.toFixed(2)}%
                     </span>
-                  }
-                  
-                  textAlign='left'
-                  isLoading={clusterStatsLoading}
-                />
-              </EuiFlexItem>
-            </EuiFlexGroup>
-          </EuiPageContentBody>
-        </EuiPageContent>
-      </EuiFlexItem>
-
-      <EuiSpacer size='l' />
+                    <div style={{ fontSize: '0.5em', color: '#666' }}>
+                      {`${formatBytes(clusterStats.jvm.mem.used)} / ${formatBytes(clusterStats.jvm.mem.total)}`}
+                    </div>
+                  </div>
+                ) : '--'
+              }
+              description={
+                <span>
+                  <EuiIcon type='memory' /> JVM Heap
+                </span>
+              }
+              
+              textAlign='left'
+              titleElement='div'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats ? clusterStats.jvm.threads : '--'}
+              description={
+                <span>
+                  <EuiIcon type='logstashIf' /> JVM Threads
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+
+        <EuiHorizontalRule margin='s' />
+
+        <EuiPageContentHeader>
+          <EuiTitle size='m'>
+            <h2>
+              <FormattedMessage
+                id='{PLUGIN_ID}shardsTitle'
+                defaultMessage='Shards'
+              />
+            </h2>
+          </EuiTitle>
+        </EuiPageContentHeader>
+
+        <EuiFlexGroup wrap gutterSize='xl'>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats?.indices?.shards?.total ?? '--'}
+              description={
+                <span>
+                  <EuiIcon type='shard' /> Total Shards
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterHealth?.active_primary_shards?.toString() ?? '--'}
+              description={
+                <span>
+                  <EuiIcon type='shard' /> Primary Shards
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterHealthLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterHealth ? (clusterHealth.active_shards - clusterHealth.active_primary_shards).toLocaleString() : '--'}
+              description={
+                <span>
+                  <EuiIcon type='shard' /> Replica Shards
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterHealthLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats?.indices?.shards?.replication ? `${(clusterStats.indices.shards.replication * 100).toFixed(2)}%` : '--'}
+              description={
+                <span>
+                  <EuiIcon type='shard' /> Replication Factor
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats?.indices?.segments?.count?.toLocaleString() ?? '--'}
+              description={
+                <span>
+                  <EuiIcon type='partial' /> Segments
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={
+                clusterHealth?.unassigned_shards > 0 && !unavailableRoutes['/unassigned_shards'] ? (
+                  <EuiLink color='danger' onClick={() => setIsUnassignedFlyoutOpen(true)}>
+                    {clusterHealth.unassigned_shards}
+                  </EuiLink>
+                ) : (
+                  clusterHealth?.unassigned_shards?.toString() ?? '--'
+                )
+              }
+              description={
+                <span>
+                  <EuiIcon type='shard' /> Unassigned Shards
+                </span>
+              }
+              
+              titleColor={clusterHealth?.unassigned_shards > 0 ? '#FF6666' : '#159D8D'}
+              textAlign='left'
+              isLoading={clusterHealthLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterHealth?.initializing_shards?.toString() ?? '--'}
+              description={
+                <span>
+                  <EuiIcon type='shard' /> Initializing Shards
+                </span>
+              }
+              
+              titleColor={clusterHealth?.initializing_shards > 0 ? '#FF6666' : '#159D8D'}
+              textAlign='left'
+              isLoading={clusterHealthLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterHealth?.active_shards_percent_as_number ? `${clusterHealth.active_shards_percent_as_number.toFixed(2)}%` : '--'}
+              description={
+                <span>
+                  <EuiIcon type='shard' /> Active Shards (%)
+                </span>
+              }
+              
+              titleColor={clusterHealth?.active_shards_percent_as_number < 100 ? '#FF6666' : '#159D8D'}
+              textAlign='left'
+              isLoading={clusterHealthLoading}
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+
+        <EuiHorizontalRule margin='s' />
+
+        <EuiPageContentHeader>
+          <EuiTitle size='m'>
+            <h2>
+              <FormattedMessage
+                id='{PLUGIN_ID}indicesTitle'
+                defaultMessage='Indices'
+              />
+            </h2>
+          </EuiTitle>
+        </EuiPageContentHeader>
+
+        <EuiFlexGroup wrap gutterSize='xl'>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats?.indices?.count ?? '--'}
+              description={
+                <span>
+                  <EuiIcon type='indexSettings' /> Total Indices
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats?.indices?.docs?.count?.toLocaleString() ?? '--'}
+              description={
+                <span>
+                  <EuiIcon type='document' /> Documents
+                </span>
+              }
+               
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats?.indices?.docs?.deleted?.toLocaleString() ?? '--'}
+              description={
+                <span>
+                  <EuiIcon type='document' /> Deleted Docs
+                </span>
+              }
+               
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+
+          <EuiFlexItem grow={false}>
+            <EuiStat
+              title={clusterStats?.indices?.store?.size_in_bytes ? formatBytes(clusterStats.indices.store.size_in_bytes) : '--'}
+              description={
+                <span>
+                  <EuiIcon type='storage' /> Storage Used
+                </span>
+              }
+              
+              textAlign='left'
+              isLoading={clusterStatsLoading}
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiPageContentBody>
+    </EuiPageContent>
+  );
 
-      <EuiFlexItem grow={false}>
-        <EuiPageContent grow={false}>
-          <EuiPageContentHeader>
-            <EuiTitle size='m'>
-              <h2>
-                <FormattedMessage
-                  id='{PLUGIN_ID}graphViewTitle'
-                  defaultMessage='Graph View'
-                />
-              </h2>
-            </EuiTitle>
-          </EuiPageContentHeader>
-
-          <EuiPageContentBody>
-            {nodesData.length > 0 ? (
-              <NetworkGraph nodes={nodesData} />
-            ) : (
-              <EuiText textAlign="center">
-                <EuiIcon type="visualizeApp" size="xl" />
-                <p>Loading node graph...</p>
-              </EuiText>
-            )}
-          </EuiPageContentBody>
-        </EuiPageContent>
-      </EuiFlexItem>
-    </EuiFlexGroup>
+  const renderTopologySection = () => (
+    <EuiPageContent>
+      <EuiPageContentHeader>
+        <EuiTitle size='m'>
+          <h2>
+            <FormattedMessage
+              id='{PLUGIN_ID}graphViewTitle'
+              defaultMessage='Graph View'
+            />
+          </h2>
+        </EuiTitle>
+        <EuiFlexGroup alignItems='center' gutterSize='l' responsive={false}>
+          <EuiFlexItem grow={false} style={{ minWidth: '280px' }}>
+            <EuiComboBox
+              compressed
+              prepend='Group by'
+              aria-label='Node attributes grouping the hosts, outermost first'
+              placeholder='Roles only'
+              options={nodeAttributeNames.map(label => ({ label }))}
+              selectedOptions={effectiveGraphGroupBy.map(label => ({ label }))}
+              onChange={(options) => setGraphGroupByPersisted(options.map(({ label }) => label))}
+            />
+          </EuiFlexItem>
+          {graphGroupBy && (
+            <EuiFlexItem grow={false}>
+              <EuiButtonEmpty size='xs' onClick={() => setGraphGroupByPersisted(null)}>
+                {awarenessAttributes.length > 0 ? 'Use awareness attributes' : 'Reset grouping'}
+              </EuiButtonEmpty>
+            </EuiFlexItem>
+          )}
+          <EuiFlexItem grow={false}>
+            <EuiSelect
+              compressed
+              prepend='Color by'
+              aria-label='Metric coloring the hosts'
+              options={Object.entries(GRAPH_METRICS).map(([value, { label }]) => ({ value, text: label }))}
+              value={graphMetric}
+              onChange={(e) => setGraphMetricPersisted(e.target.value as GraphMetric)}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiSwitch
+              label='Show shards'
+              checked={showShards}
+              onChange={() => setShowShardsPersisted(!showShards)}
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiPageContentHeader>
+
+      <EuiPageContentBody>
+        {graphMetric !== 'none' && (
+          <>
+            <EuiText size='xs'>
+              <p>
+                {[
+                  { color: getUsageColor(0), label: `${GRAPH_METRICS[graphMetric].label} < 80%` },
+                  { color: getUsageColor(80), label: '80-90%' },
+                  { color: getUsageColor(90), label: '> 90%' },
+                ].map(({ color, label }) => (
+                  <span key={label} style={{ marginRight: '12px' }}>
+                    <span style={{ display: 'inline-block', width: '8px', height: '8px', background: color, marginRight: '4px' }} />
+                    {label}
+                  </span>
+                ))}
+              </p>
+            </EuiText>
+            <EuiSpacer size='s' />
+          </>
+        )}
+        {showShards && (
+          <>
+            <EuiText size='xs'>
+              <p>
+                {[
+                  { color: SHARD_COLORS.primary, label: 'Primary' },
+                  { color: SHARD_COLORS.replica, label: 'Replica' },
+                  { color: SHARD_COLORS.relocating, label: 'Relocating' },
+                  { color: SHARD_COLORS.initializing, label: 'Initializing' },
+                ].map(({ color, label }) => (
+                  <span key={label} style={{ marginRight: '12px' }}>
+                    <span style={{ display: 'inline-block', width: '8px', height: '8px', background: color, marginRight: '4px' }} />
+                    {label}
+                  </span>
+                ))}
+                {effectiveGraphGroupBy.length > 0 && (
+                  <span>
+                    <span style={{ display: 'inline-block', width: '6px', height: '6px', border: '1.5px solid #FF0000', marginRight: '4px' }} />
+                    {`Copies in the same ${effectiveGraphGroupBy[0]}`}
+                  </span>
+                )}
+              </p>
+            </EuiText>
+            <EuiSpacer size='s' />
+          </>
+        )}
+        {renderIfPermitted(
+          ['/nodes_stats'],
+          nodesData.length > 0 ? (
+            <NetworkGraph
+              nodes={nodesData}
+              shards={showShards ? shardsData : undefined}
+              recoveries={recoveryData}
+              groupBy={effectiveGraphGroupBy}
+              warnings={nodeDriftWarnings}
+              missingNodes={expectedNodes.filter(node => nodeDifferences.missingNodes.includes(node.name))}
+              metric={graphMetric}
+              getUsageColor={getUsageColor}
+              selectedNode={getUrlParam(location.search, 'node')}
+              onSelectNode={(name) => setUrlParams({ node: name })}
+              getNodeLinkProps={(id) => getLinkProps(`/nodes/${encodeURIComponent(id)}`)}
+            />
+          ) : (
+            <EuiText textAlign="center">
+              <EuiIcon type="visualizeApp" size="xl" />
+              <p>Loading node graph...</p>
+            </EuiText>
+          )
+        )}
+      </EuiPageContentBody>
+    </EuiPageContent>
   );
 
   return (
-    <Router basename={basename}>
+    <Router history={history}>
       <I18nProvider>
         <>
           <navigation.ui.TopNavMenu
@@ -1370,6 +2288,18 @@ export const MonitoringApp = ({
                   </EuiFlexItem>
                   <EuiFlexItem grow={false}>
                     <EuiFlexGroup alignItems="center" gutterSize="s">
+                      {dataSources.length > 1 && (
+                        <EuiFlexItem grow={false} style={{ width: '220px' }}>
+                          <EuiSelect
+                            compressed
+                            prepend='Cluster'
+                            aria-label='Monitored cluster'
+                            options={dataSources.map(source => ({ value: source.id, text: source.title }))}
+                            value={dataSourceId}
+                            onChange={(e) => setDataSourceIdPersisted(e.target.value)}
+                          />
+                        </EuiFlexItem>
+                      )}
                       {lastRefreshTime && (
                         <EuiFlexItem grow={false}>
                           <EuiText color="subdued" size="s">
@@ -1377,6 +2307,20 @@ export const MonitoringApp = ({
                           </EuiText>
                         </EuiFlexItem>
                       )}
+                      {isStreaming && (
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content='Health, nodes and recovery are pushed by the server as they change'>
+                            <EuiHealth color='success'>Live</EuiHealth>
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                      )}
+                      <EuiFlexItem grow={false}>
+                        <DiagnosticsButton
+                          http={http}
+                          notifications={notifications}
+                          dataSourceQuery={dataSourceQuery}
+                        />
+                      </EuiFlexItem>
                       <EuiFlexItem grow={false}>
                         <EuiSwitch
                           label="Auto-refresh"
@@ -1410,132 +2354,440 @@ export const MonitoringApp = ({
                 </EuiFlexGroup>
               </EuiPageHeader>
 
-              {renderClusterSection()}
-
-              <EuiSpacer size='l' />
+              <EuiTabs>
+                {CLUSTER_TABS.map(tab => (
+                  <EuiTab
+                    key={tab.path}
+                    isSelected={
+                      location.pathname === tab.path ||
+                      (tab.path !== '/' && location.pathname.startsWith(`${tab.path}/`))
+                    }
+                    onClick={() => openTab(tab.path)}
+                  >
+                    {tab.label}
+                  </EuiTab>
+                ))}
+                {dataSources.length > 1 && (
+                  <EuiTab
+                    isSelected={location.pathname === '/fleet'}
+                    onClick={() => openTab('/fleet')}
+                  >
+                    Fleet Overview
+                  </EuiTab>
+                )}
+              </EuiTabs>
+              <EuiSpacer size='m' />
+
+              {/* Metrics history and alerts are only collected on the local cluster */}
+              {!dataSourceId && location.pathname !== '/fleet' && (
+                unavailableRoutes['/alerts'] ? (
+                  <>
+                    <MissingPermissions permissions={unavailableRoutes['/alerts']} />
+                    <EuiSpacer size='l' />
+                  </>
+                ) : (
+                  <AlertsBanner active={alertsData.active} history={alertsData.history} />
+                )
+              )}
 
-              <EuiPageContent>
-                <EuiPageContentHeader>
-                  <EuiTitle>
-                    <h2>
-                      <FormattedMessage
-                        id='{PLUGIN_ID}clusterNodesTitle'
-                        defaultMessage='Cluster Nodes'
+              <Switch>
+                <Route path='/fleet'>
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}fleetTitle'
+                            defaultMessage='Fleet Overview'
+                          />
+                        </h2>
+                      </EuiTitle>
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      <FleetOverview
+                        http={http}
+                        notifications={notifications}
+                        formatBytes={formatBytes}
+                        getUsageColor={getUsageColor}
+                        onSelect={(id) => {
+                          setDataSourceIdPersisted(id);
+                          openTab('/');
+                        }}
+                        refreshKey={String(refreshCount)}
                       />
-                    </h2>
-                  </EuiTitle>
-                </EuiPageContentHeader>
-                <EuiPageContentBody>
-                  <EuiInMemoryTable
-                    tableCaption='OpenSearch Cluster Nodes'
-                    items={nodesData}
-                    columns={nodesColumns}
-                    loading={loading}
-                    pagination={true}
-                    sorting={{
-                      sort: {
-                        field: 'name',
-                        direction: 'asc',
-                      },
-                    }}
-                    search={{
-                      box: {
-                        incremental: true,
-                      },
-                    }}
-                  />
-                </EuiPageContentBody>
-              </EuiPageContent>
-
-              <EuiSpacer size='l' />
-
-              <EuiPageContent>
-                <EuiPageContentHeader>
-                  <EuiTitle>
-                    <h2>
-                      <FormattedMessage
-                        id='{PLUGIN_ID}snapshotsTitle'
-                        defaultMessage='Running Snapshots'
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+                </Route>
+                <Route
+                  path='/nodes/:id'
+                  render={({ match }) => (
+                    <NodeDetails
+                      http={http}
+                      notifications={notifications}
+                      nodeId={decodeURIComponent(match.params.id)}
+                      dataSourceQuery={dataSourceQuery}
+                      formatBytes={formatBytes}
+                      formatDuration={(millis) => formatDuration(millis, 's') || '< 1 second'}
+                      getUsageColor={getUsageColor}
+                      onBack={() => openTab('/nodes')}
+                      refreshKey={String(refreshCount)}
+                    />
+                  )}
+                />
+                <Route path='/nodes'>
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}clusterNodesTitle'
+                            defaultMessage='Cluster Nodes'
+                          />
+                        </h2>
+                      </EuiTitle>
+                      <ExportButton
+                        name='nodes'
+                        rows={filterRows(nodesData, nodesTable.query)}
+                        columns={nodesColumns}
                       />
-                    </h2>
-                  </EuiTitle>
-                </EuiPageContentHeader>
-                <EuiPageContentBody>
-                  <EuiInMemoryTable
-                    tableCaption='OpenSearch Running Snapshots'
-                    items={snapshotsData}
-                    columns={snapshotsColumns}
-                    loading={snapshotsLoading}
-                    pagination={true}
-                    sorting={{
-                      sort: {
-                        field: 'stats.start_time_in_millis',
-                        direction: 'desc',
-                      },
-                    }}
-                    search={{
-                      box: {
-                        incremental: true,
-                        placeholder: 'Search...',
-                      },
-                    }}
-                  />
-                </EuiPageContentBody>
-              </EuiPageContent>
-
-              <EuiSpacer size='l' />
-
-              <EuiPageContent>
-                <EuiPageContentHeader>
-                  <EuiTitle>
-                    <h2>
-                      <FormattedMessage
-                        id='{PLUGIN_ID}shardsRecoveryTitle'
-                        defaultMessage='Shards Recovery'
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      {renderIfPermitted(
+                        ['/nodes_stats'],
+                        <EuiInMemoryTable
+                          tableCaption='OpenSearch Cluster Nodes'
+                          items={nodesData}
+                          columns={nodesColumns}
+                          loading={loading}
+                          pagination={true}
+                          sorting={nodesTable.sorting}
+                          onTableChange={nodesTable.onTableChange}
+                          search={{
+                            query: nodesTable.query,
+                            onChange: nodesTable.onQueryChange,
+                            box: {
+                              incremental: true,
+                            },
+                          }}
+                        />
+                      )}
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+
+                  <EuiSpacer size='l' />
+
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}threadPoolsTitle'
+                            defaultMessage='Thread Pools'
+                          />
+                        </h2>
+                      </EuiTitle>
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      {renderIfPermitted(
+                        ['/thread_pools'],
+                        <ThreadPoolHeatmap
+                          pools={threadPoolsData.pools}
+                          interval={threadPoolsData.interval_in_millis}
+                          loading={threadPoolsLoading}
+                        />
+                      )}
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+                </Route>
+                <Route path='/recovery'>
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}shardsRecoveryTitle'
+                            defaultMessage='Shards Recovery'
+                          />
+                        </h2>
+                      </EuiTitle>
+                      <ExportButton
+                        name='recovery'
+                        rows={filterRows(recoveryData, recoveryTable.query)}
+                        columns={recoveryColumns}
+                        exportFields={RECOVERY_EXPORT_FIELDS}
                       />
-                    </h2>
-                  </EuiTitle>
-                </EuiPageContentHeader>
-                <EuiPageContentBody>
-                  <EuiFlexGroup justifyContent='flexEnd' alignItems='center'>
-                    <EuiFlexItem grow={false}>
-                      <EuiSwitch
-                        label='Hide completed items'
-                        checked={hideDone}
-                        onChange={toggleHideDone}
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      {renderIfPermitted(
+                        ['/recovery'],
+                        <>
+                          <EuiFlexGroup justifyContent='flexEnd' alignItems='center'>
+                            <EuiFlexItem grow={false}>
+                              <EuiSwitch
+                                label='Hide completed items'
+                                checked={hideDone}
+                                onChange={toggleHideDone}
+                              />
+                            </EuiFlexItem>
+                          </EuiFlexGroup>
+
+                          <EuiSpacer size='m' />
+
+                          <EuiInMemoryTable
+                            tableCaption='OpenSearch Shards Recovery'
+                            items={recoveryData}
+                            columns={recoveryColumns}
+                            loading={loading}
+                            pagination={true}
+                            sorting={recoveryTable.sorting}
+                            onTableChange={recoveryTable.onTableChange}
+                            search={{
+                              query: recoveryTable.query,
+                              onChange: recoveryTable.onQueryChange,
+                              box: {
+                                incremental: true,
+                                placeholder: hideDone
+                                  ? 'Search (excluding completed items)'
+                                  : 'Search all items',
+                              },
+                            }}
+                          />
+                        </>
+                      )}
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+                </Route>
+                <Route path='/snapshots'>
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}snapshotRepositoriesTitle'
+                            defaultMessage='Snapshot Repositories'
+                          />
+                        </h2>
+                      </EuiTitle>
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      {renderIfPermitted(
+                        ['/snapshot_repositories', '/snapshot_repositories/{repository}/snapshots'],
+                        <SnapshotHistory
+                          repositories={snapshotRepositories}
+                          loading={snapshotRepositoriesLoading}
+                          formatBytes={formatBytes}
+                          formatDuration={(millis) => formatDuration(millis, 's') || '< 1 second'}
+                        />
+                      )}
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+
+                  <EuiSpacer size='l' />
+
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}snapshotsTitle'
+                            defaultMessage='Running Snapshots'
+                          />
+                        </h2>
+                      </EuiTitle>
+                      <ExportButton
+                        name='snapshots'
+                        rows={filterRows(snapshotsData, snapshotsTable.query)}
+                        columns={snapshotsColumns}
                       />
-                    </EuiFlexItem>
-                  </EuiFlexGroup>
-
-                  <EuiSpacer size='m' />
-
-                  <EuiInMemoryTable
-                    tableCaption='OpenSearch Shards Recovery'
-                    items={recoveryData}
-                    columns={recoveryColumns}
-                    loading={loading}
-                    pagination={true}
-                    sorting={{
-                      sort: {
-                        field: 'index',
-                        direction: 'asc',
-                      },
-                    }}
-                    search={{
-                      query: searchQuery,
-                      onChange: ({ query }) => setSearchQuery(query ? query.text : ''),
-                      box: {
-                        incremental: true,
-                        placeholder: hideDone
-                          ? 'Search (excluding completed items)'
-                          : 'Search all items',
-                      },
-                    }}
-                  />
-                </EuiPageContentBody>
-              </EuiPageContent>
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      {renderIfPermitted(
+                        ['/snapshots'],
+                        <EuiInMemoryTable
+                          tableCaption='OpenSearch Running Snapshots'
+                          items={snapshotsData}
+                          columns={snapshotsColumns}
+                          loading={snapshotsLoading}
+                          pagination={true}
+                          sorting={snapshotsTable.sorting}
+                          onTableChange={snapshotsTable.onTableChange}
+                          search={{
+                            query: snapshotsTable.query,
+                            onChange: snapshotsTable.onQueryChange,
+                            box: {
+                              incremental: true,
+                              placeholder: 'Search...',
+                            },
+                          }}
+                        />
+                      )}
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+                </Route>
+                <Route path='/topology'>
+                  {renderTopologySection()}
+                </Route>
+                <Route exact path='/'>
+                  {renderClusterSection()}
+
+                  {/* Only shown while the cluster runs mixed versions */}
+                  {upgradeStatus && upgradeStatus.versions.length > 1 && (
+                    <>
+                      <EuiSpacer size='l' />
+
+                      <EuiPageContent>
+                        <EuiPageContentHeader>
+                          <EuiTitle>
+                            <h2>
+                              <FormattedMessage
+                                id='{PLUGIN_ID}upgradeTitle'
+                                defaultMessage='Rolling Upgrade'
+                              />
+                            </h2>
+                          </EuiTitle>
+                        </EuiPageContentHeader>
+                        <EuiPageContentBody>
+                          <UpgradeTracker status={upgradeStatus} loading={upgradeStatusLoading} />
+                        </EuiPageContentBody>
+                      </EuiPageContent>
+                    </>
+                  )}
+
+                  {!dataSourceId && (
+                    <>
+                      <EuiSpacer size='l' />
+
+                      <EuiPageContent>
+                        <EuiPageContentHeader>
+                          <EuiTitle>
+                            <h2>
+                              <FormattedMessage
+                                id='{PLUGIN_ID}historyTitle'
+                                defaultMessage='Metrics History'
+                              />
+                            </h2>
+                          </EuiTitle>
+                        </EuiPageContentHeader>
+                        <EuiPageContentBody>
+                          {renderIfPermitted(
+                            ['/history'],
+                            <>
+                              <EuiFlexGroup justifyContent='flexEnd' alignItems='center'>
+                                <EuiFlexItem grow={false}>
+                                  <EuiSelect
+                                    compressed
+                                    options={historyRangeOptions}
+                                    value={historyRange}
+                                    onChange={(e) => setHistoryRangePersisted(parseInt(e.target.value, 10))}
+                                  />
+                                </EuiFlexItem>
+                              </EuiFlexGroup>
+
+                              <EuiSpacer size='m' />
+
+                              <HistoryCharts samples={historyData} />
+                            </>
+                          )}
+                        </EuiPageContentBody>
+                      </EuiPageContent>
+                    </>
+                  )}
+
+                  <EuiSpacer size='l' />
+
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}tasksTitle'
+                            defaultMessage='Tasks'
+                          />
+                        </h2>
+                      </EuiTitle>
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      {renderIfPermitted(
+                        ['/pending_tasks', '/tasks'],
+                        <TasksPanel
+                          pendingTasks={pendingTasksData}
+                          tasks={tasksData}
+                          loading={tasksLoading}
+                          formatDuration={(millis) => formatDuration(millis, 's') || '< 1 second'}
+                          canCancel={!unavailableRoutes['/tasks/{taskId}/_cancel']}
+                          onCancel={cancelTask}
+                        />
+                      )}
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+
+                  <EuiSpacer size='l' />
+
+                  <EuiPageContent>
+                    <EuiPageContentHeader>
+                      <EuiTitle>
+                        <h2>
+                          <FormattedMessage
+                            id='{PLUGIN_ID}indicesTableTitle'
+                            defaultMessage='Indices'
+                          />
+                        </h2>
+                      </EuiTitle>
+                    </EuiPageContentHeader>
+                    <EuiPageContentBody>
+                      {renderIfPermitted(
+                        ['/indices'],
+                        <EuiInMemoryTable
+                          tableCaption='OpenSearch Indices'
+                          items={indicesData}
+                          columns={indicesColumns}
+                          loading={indicesLoading}
+                          pagination={true}
+                          sorting={indicesTable.sorting}
+                          onTableChange={indicesTable.onTableChange}
+                          search={{
+                            query: indicesTable.query,
+                            onChange: indicesTable.onQueryChange,
+                            box: {
+                              incremental: true,
+                              placeholder: 'Search...',
+                            },
+                          }}
+                        />
+                      )}
+                    </EuiPageContentBody>
+                  </EuiPageContent>
+
+                  {panels.map(panel => (
+                    <React.Fragment key={panel.id}>
+                      <EuiSpacer size='l' />
+
+                      <EuiPageContent>
+                        <EuiPageContentHeader>
+                          <EuiTitle>
+                            <h2>{panel.title}</h2>
+                          </EuiTitle>
+                        </EuiPageContentHeader>
+                        <EuiPageContentBody>
+                          {panel.render({ client: monitoringClient, dataSourceId, refreshKey: String(refreshCount) })}
+                        </EuiPageContentBody>
+                      </EuiPageContent>
+                    </React.Fragment>
+                  ))}
+                </Route>
+                <Redirect to='/' />
+              </Switch>
             </EuiPageBody>
           </EuiPage>
+
+          {isUnassignedFlyoutOpen && (
+            <UnassignedShardsFlyout
+              http={http}
+              notifications={notifications}
+              dataSourceId={dataSourceId}
+              onClose={() => setIsUnassignedFlyoutOpen(false)}
+            />
+          )}
         </>
       </I18nProvider>
     </Router>
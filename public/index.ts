@@ -7,4 +7,6 @@ import { MonitoringPlugin } from './plugin';
 export function plugin() {
   return new MonitoringPlugin();
 }
-export { MonitoringPluginSetup, MonitoringPluginStart } from './types';
+export { MonitoringPluginSetup, MonitoringPluginStart, MonitoringPanel, MonitoringPanelProps } from './types';
+export { MonitoringClient } from './services/monitoringClient';
+export { ClusterHealth, ClusterNode, ClusterStats, ShardRecovery } from '../common';
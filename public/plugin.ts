@@ -11,11 +11,18 @@ import {
   AppPluginStartDependencies,
 } from './types';
 import { PLUGIN_ID, PLUGIN_NAME } from '../common';
+import { MonitoringClient } from './services/monitoringClient';
+import { PanelRegistry } from './services/panelRegistry';
 
 import { renderApp } from './application'; 
 
 export class MonitoringPlugin implements Plugin<MonitoringPluginSetup, MonitoringPluginStart> {
+  private readonly panels = new PanelRegistry();
+
   public setup(core: CoreSetup): MonitoringPluginSetup {
+    // mount() is not bound to the plugin
+    const panels = this.panels;
+
     // Register the application
     core.application.register({
       id: PLUGIN_ID,
@@ -28,16 +35,21 @@ export class MonitoringPlugin implements Plugin<MonitoringPluginSetup, Monitorin
         return renderApp(
           coreStart, 
           depsStart as AppPluginStartDependencies, 
-          params
+          params,
+          panels.getAll()
         );
       },
     });
 
-    return {};
+    return {
+      registerPanel: (panel) => panels.register(panel),
+    };
   }
 
   public start(core: CoreStart): MonitoringPluginStart {
-    return {};
+    return {
+      client: new MonitoringClient(core.http),
+    };
   }
 
   public stop() {
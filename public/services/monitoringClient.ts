@@ -0,0 +1,31 @@
+import { CoreStart } from '../../../../src/core/public';
+import { PLUGIN_ID, ClusterHealth, ClusterNode, ClusterStats, ShardRecovery } from '../../common';
+
+/**
+ * Typed client of the plugin routes, exposed to other plugins by the public start contract.
+ * Every method targets the local cluster unless a data source id is given.
+ */
+export class MonitoringClient {
+  constructor(private readonly http: CoreStart['http']) {}
+
+  private get<T>(path: string, dataSourceId?: string): Promise<T> {
+    return this.http.get(`/api/${PLUGIN_ID}${path}`, { query: dataSourceId ? { dataSourceId } : {} });
+  }
+
+  public async getClusterHealth(dataSourceId?: string): Promise<ClusterHealth> {
+    const res = await this.get<{ data: ClusterHealth }>('/cluster_health', dataSourceId);
+    return res.data;
+  }
+
+  public getClusterStats(dataSourceId?: string): Promise<ClusterStats> {
+    return this.get('/cluster_stats', dataSourceId);
+  }
+
+  public getNodeStats(dataSourceId?: string): Promise<ClusterNode[]> {
+    return this.get('/nodes_stats', dataSourceId);
+  }
+
+  public getRecovery(dataSourceId?: string): Promise<ShardRecovery[]> {
+    return this.get('/recovery', dataSourceId);
+  }
+}
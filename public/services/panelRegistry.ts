@@ -0,0 +1,22 @@
+import { MonitoringPanel } from '../types';
+
+/**
+ * Extra panels registered by other plugins, rendered below the built-in panels of the cluster view.
+ */
+export class PanelRegistry {
+  private readonly panels = new Map<string, MonitoringPanel>();
+
+  public register(panel: MonitoringPanel) {
+    if (this.panels.has(panel.id)) {
+      throw new Error(`Monitoring panel [${panel.id}] is already registered`);
+    }
+    this.panels.set(panel.id, panel);
+  }
+
+  /**
+   * Returns the panels sorted by order, then by registration.
+   */
+  public getAll(): MonitoringPanel[] {
+    return [...this.panels.values()].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }
+}
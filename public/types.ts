@@ -1,10 +1,36 @@
+import { ReactNode } from 'react';
 import { NavigationPublicPluginStart } from '../../../src/plugins/navigation/public';
+import { MonitoringClient } from './services/monitoringClient';
 
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface MonitoringPluginSetup {}
+/**
+ * Props given to an extra panel each time the cluster view renders.
+ */
+export interface MonitoringPanelProps {
+  client: MonitoringClient;
+  // Selected cluster, empty for the local cluster
+  dataSourceId: string;
+  // Changes whenever the page refreshes its data
+  refreshKey: string;
+}
+
+/**
+ * Extra panel registered by another plugin.
+ */
+export interface MonitoringPanel {
+  id: string;
+  title: string;
+  // Panels are sorted by ascending order (default 0)
+  order?: number;
+  render: (props: MonitoringPanelProps) => ReactNode;
+}
 
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface MonitoringPluginStart {}
+export interface MonitoringPluginSetup {
+  registerPanel(panel: MonitoringPanel): void;
+}
+
+export interface MonitoringPluginStart {
+  client: MonitoringClient;
+}
 
 export interface AppPluginStartDependencies {
   navigation: NavigationPublicPluginStart;
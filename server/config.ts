@@ -2,7 +2,70 @@ import { schema } from '@osd/config-schema';
 
 export const config = {
   schema: schema.object({
-    nodes: schema.arrayOf(schema.string(), { defaultValue: [] }),
+    // Expected nodes, either as a name or as { name, roles, zone, host } to also detect drift
+    nodes: schema.arrayOf(
+      schema.oneOf([
+        schema.string(),
+        schema.object({
+          name: schema.string(),
+          roles: schema.maybe(schema.arrayOf(schema.string())),
+          zone: schema.maybe(schema.string()),
+          host: schema.maybe(schema.string()),
+        }),
+      ]),
+      { defaultValue: [] }
+    ),
     // enabled: schema.boolean({ defaultValue: true }),
+    overview: schema.object({
+      // Time to live of the cached cluster responses in seconds (0 disables caching)
+      cache_ttl: schema.number({ defaultValue: 5, min: 0 }),
+      // Time to live of the cached snapshot listings in seconds: listing a repository reads it from its storage
+      snapshots_cache_ttl: schema.number({ defaultValue: 60, min: 0 }),
+    }),
+    stream: schema.object({
+      // Push health, nodes and recovery changes to the open pages (server-sent events)
+      enabled: schema.boolean({ defaultValue: true }),
+      // Interval in seconds between two checks for changes
+      interval: schema.number({ defaultValue: 5, min: 1 }),
+    }),
+    history: schema.object({
+      enabled: schema.boolean({ defaultValue: true }),
+      // Sampling interval in seconds
+      interval: schema.number({ defaultValue: 60, min: 10 }),
+      // Maximum number of samples kept in memory (oldest are dropped first)
+      size: schema.number({ defaultValue: 1440, min: 1 }),
+    }),
+    alerts: schema.object({
+      // Evaluation interval in seconds
+      interval: schema.number({ defaultValue: 30, min: 10 }),
+      // Number of fired/resolved alerts kept in the history
+      history_size: schema.number({ defaultValue: 100, min: 1 }),
+      rules: schema.arrayOf(
+        schema.object({
+          name: schema.string(),
+          // 'cluster' rules are evaluated against cluster health + stats, 'node' rules against each node
+          scope: schema.oneOf([schema.literal('cluster'), schema.literal('node')], {
+            defaultValue: 'cluster',
+          }),
+          // Dot path into the formatted stats, e.g. 'fs.percent', 'unassigned_shards', 'status'
+          metric: schema.string(),
+          operator: schema.oneOf([
+            schema.literal('>'),
+            schema.literal('>='),
+            schema.literal('<'),
+            schema.literal('<='),
+            schema.literal('=='),
+            schema.literal('!='),
+          ]),
+          value: schema.oneOf([schema.number(), schema.string()]),
+          // Number of consecutive samples the condition must hold before firing
+          for: schema.number({ defaultValue: 1, min: 1 }),
+          severity: schema.oneOf([schema.literal('warning'), schema.literal('danger')], {
+            defaultValue: 'warning',
+          }),
+        }),
+        { defaultValue: [] }
+      ),
+    }),
   }),
 };
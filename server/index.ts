@@ -12,4 +12,5 @@ export function plugin(initializerContext: PluginInitializerContext) {
 // Export the config schema for OpenSearch Dashboards to recognize your config keys
 export { config };
 
-export { MonitoringPluginSetup, MonitoringPluginStart } from './types';
+export { MonitoringPluginSetup, MonitoringPluginStart, MonitoringScopedClient } from './types';
+export { ClusterHealth, ClusterNode, ClusterStats, ShardRecovery } from '../common';
@@ -4,20 +4,31 @@ import {
   CoreStart,
   Plugin,
   Logger,
+  OpenSearchDashboardsRequest,
 } from '../../../src/core/server';
 
 import { MonitoringPluginSetup, MonitoringPluginStart } from './types';
 import { defineRoutes } from './routes';
+import { fetchClusterStats, fetchHealth, fetchNodes, fetchRecovery } from './routes/fetchers';
+import { HistoryCollector } from './services/historyCollector';
+import { AlertEvaluator } from './services/alertEvaluator';
+import { ResponseCache } from './services/responseCache';
 import { Observable } from 'rxjs';
 
 export class MonitoringPlugin implements Plugin<MonitoringPluginSetup, MonitoringPluginStart> {
   private readonly logger: Logger;
   private readonly config$: Observable<any>;
   private config: any | undefined; // Store the config here
+  private readonly history: HistoryCollector;
+  private readonly alerts: AlertEvaluator;
+  private readonly cache: ResponseCache;
 
   constructor(private readonly initializerContext: PluginInitializerContext) {
     this.logger = this.initializerContext.logger.get();
     this.config$ = this.initializerContext.config.create();
+    this.history = new HistoryCollector(this.logger);
+    this.alerts = new AlertEvaluator(this.logger);
+    this.cache = new ResponseCache();
   }
 
   public setup(core: CoreSetup) {
@@ -31,17 +42,34 @@ export class MonitoringPlugin implements Plugin<MonitoringPluginSetup, Monitorin
     });
 
     // Pass the config to your routes or use it elsewhere
-    defineRoutes(router, () => this.config);
+    defineRoutes(router, () => this.config, this.history, this.alerts, this.cache);
 
     return {};
   }
 
-  public start(core: CoreStart) {
+  public start(core: CoreStart): MonitoringPluginStart {
     this.logger.debug('monitoring: Started');
-    return {};
+
+    // Background sampling runs as the internal user since there is no request scope
+    this.history.start(core.opensearch.client.asInternalUser, this.config?.history);
+    this.alerts.start(core.opensearch.client.asInternalUser, this.config?.alerts);
+
+    return {
+      asScoped: (request: OpenSearchDashboardsRequest) => {
+        const client = core.opensearch.client.asScoped(request).asCurrentUser;
+        return {
+          getClusterHealth: () => fetchHealth(client),
+          getClusterStats: () => fetchClusterStats(client),
+          getNodeStats: () => fetchNodes(client),
+          getRecovery: () => fetchRecovery(client),
+        };
+      },
+    };
   }
 
   public stop() {
-    // Cleanup logic if needed
+    this.history.stop();
+    this.alerts.stop();
+    this.cache.clear();
   }
 }
@@ -0,0 +1,229 @@
+import { OpenSearchClient } from '../../../../src/core/server';
+import { createTarGz } from './utils/tarArchive';
+import { getStatusCode } from './permissions';
+import { PLUGIN_ID } from '../../common';
+
+/**
+ * Raw API response saved in the diagnostics bundle.
+ */
+interface DiagnosticsRequest {
+  file: string;
+  method: 'GET' | 'POST';
+  path: string;
+  querystring?: Record<string, any>;
+}
+
+/**
+ * Every API called by the plugin (except the per-repository snapshot listings, added once the repositories are known),
+ * plus the cluster settings, shards, nodes info and disk allocation.
+ * Responses are saved untouched (apart from redaction) so that they can be replayed by support.
+ */
+const DIAGNOSTICS_REQUESTS: DiagnosticsRequest[] = [
+  { file: 'cluster_health.json', method: 'GET', path: '/_cluster/health' },
+  { file: 'cluster_stats.json', method: 'GET', path: '/_cluster/stats' },
+  {
+    file: 'cluster_settings.json',
+    method: 'GET',
+    path: '/_cluster/settings',
+    querystring: { include_defaults: true, flat_settings: true },
+  },
+  { file: 'cluster_pending_tasks.json', method: 'GET', path: '/_cluster/pending_tasks' },
+  // Answers 400 when no shard is unassigned
+  { file: 'cluster_allocation_explain.json', method: 'GET', path: '/_cluster/allocation/explain' },
+  { file: 'nodes.json', method: 'GET', path: '/_nodes' },
+  { file: 'nodes_stats.json', method: 'GET', path: '/_nodes/stats' },
+  { file: 'recovery.json', method: 'GET', path: '/_recovery', querystring: { detailed: true } },
+  { file: 'snapshot_repositories.json', method: 'GET', path: '/_snapshot' },
+  { file: 'snapshot_status.json', method: 'GET', path: '/_snapshot/_status' },
+  { file: 'tasks.json', method: 'GET', path: '/_tasks', querystring: { detailed: true } },
+  { file: 'cat_allocation.json', method: 'GET', path: '/_cat/allocation', querystring: { format: 'json', bytes: 'b' } },
+  { file: 'cat_indices.json', method: 'GET', path: '/_cat/indices', querystring: { format: 'json', bytes: 'b' } },
+  {
+    file: 'cat_shards.json',
+    method: 'GET',
+    path: '/_cat/shards',
+    querystring: {
+      format: 'json',
+      bytes: 'b',
+      h: 'index,shard,prirep,state,docs,store,ip,node,unassigned.reason,unassigned.at,unassigned.details',
+    },
+  },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Removes the transport port that `_nodes/stats` appends to node IPs ("10.0.0.1:9300", "[::1]:9300").
+ */
+const stripPort = (address: string) =>
+  address.replace(/^(\d+\.\d+\.\d+\.\d+):\d+$/, '$1').replace(/^\[(.+)\]:\d+$/, '$1');
+
+/**
+ * Lists the name, host and IP of every node appearing in the responses and in the expected nodes.
+ * Every response naming nodes is read, so that a failed `_nodes` request still leaves the others redacted.
+ *
+ * @param responses - Responses of the bundle, by file name.
+ * @param expectedNodes - Formatted `monitoring.nodes` config.
+ */
+function collectNodes(responses: { file: string; body: any }[], expectedNodes: any[]) {
+  const body = (file: string) => responses.find((response) => response.file === file)?.body;
+  const rows = (file: string): any[] => (Array.isArray(body(file)) ? body(file) : []);
+
+  // Relocating shards name their target after the source: "node-a -> 10.0.0.2 <id> node-b"
+  const shardNodes = rows('cat_shards.json').flatMap((row) => {
+    const [source, target] = String(row.node ?? '').split(' -> ');
+    const [targetIp, , targetName] = (target ?? '').split(' ');
+    return [
+      { name: source, ip: row.ip },
+      { name: targetName, ip: targetIp },
+    ];
+  });
+  const allocationNodes = rows('cat_allocation.json')
+    .filter((row) => row.node !== 'UNASSIGNED')
+    .map((row) => ({ name: row.node, host: row.host, ip: row.ip }));
+
+  return [
+    ...Object.values<any>(body('nodes.json')?.nodes ?? {}),
+    ...Object.values<any>(body('nodes_stats.json')?.nodes ?? {}),
+    ...shardNodes,
+    ...allocationNodes,
+    ...(expectedNodes ?? []),
+  ].map((node) => ({ name: node.name, host: node.host, ip: node.ip && stripPort(String(node.ip)) }));
+}
+
+/**
+ * Builds the replacement of the node names, host names and IP addresses,
+ * mapping each of them to a stable placeholder (node-1, host-1...).
+ * Values are only replaced as whole words, so that a node named "data" keeps the "data_content" role intact.
+ *
+ * @param nodes - Nodes of the cluster, as listed by collectNodes.
+ * @returns The redaction, or null when no node is known and nothing could be redacted.
+ */
+function createRedactor(nodes: { name?: string; host?: string; ip?: string }[]): ((value: string) => string) | null {
+  const aliases = new Map<string, string>();
+  nodes.forEach((node) => {
+    if (node.name && !aliases.has(node.name)) aliases.set(node.name, `node-${aliases.size + 1}`);
+  });
+  const nodeCount = aliases.size;
+  nodes.forEach((node) => {
+    [node.host, node.ip].forEach((host) => {
+      if (host && !aliases.has(host)) aliases.set(host, `host-${aliases.size - nodeCount + 1}`);
+    });
+  });
+  if (aliases.size === 0) return null;
+
+  // Longest first, so that "node-10" is not redacted as "node-1" followed by "0"
+  const pattern = new RegExp(
+    `(?<![\\w-])(${[...aliases.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|')})(?![\\w-])`,
+    'g'
+  );
+  return (value) => value.replace(pattern, (match) => aliases.get(match) ?? match);
+}
+
+/**
+ * Applies the redaction to every key and string value of a response.
+ */
+function redactValue(value: any, redact: (value: string) => string): any {
+  if (typeof value === 'string') return redact(value);
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, redact));
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).reduce<Record<string, any>>((acc, [key, nested]) => {
+      acc[redact(key)] = redactValue(nested, redact);
+      return acc;
+    }, {});
+  }
+  return value;
+}
+
+/**
+ * Collects the raw responses of the cluster into a timestamped tar.gz archive with a manifest.
+ * A failed API is listed in the manifest with its error instead of failing the whole bundle,
+ * unless no node can be read at all while redaction is requested.
+ *
+ * @param client - Client of the current user on the monitored cluster.
+ * @param options.redact - Replaces node names, host names and IP addresses with placeholders.
+ * @param options.config - Formatted plugin config, saved alongside the responses.
+ * @param options.dataSourceId - Data source of the monitored cluster (empty for the local cluster).
+ */
+export async function createDiagnosticsBundle(
+  client: OpenSearchClient,
+  options: { redact: boolean; config: any; dataSourceId: string }
+) {
+  const createdAt = new Date();
+  const send = async ({ file, ...request }: DiagnosticsRequest) => {
+    const start = Date.now();
+    try {
+      const result = await client.transport.request(request);
+      return { file, request, body: result.body, error: null, took: Date.now() - start };
+    } catch (err) {
+      const error = { status_code: getStatusCode(err), message: err?.message ?? String(err) };
+      return { file, request, body: err?.meta?.body ?? null, error, took: Date.now() - start };
+    }
+  };
+  const fixedResponses = await Promise.all(DIAGNOSTICS_REQUESTS.map(send));
+
+  // The snapshots are listed per repository, once the repositories are known
+  const repositories = fixedResponses.find(({ file }) => file === 'snapshot_repositories.json');
+  const repositoryNames = repositories?.error ? [] : Object.keys(repositories?.body ?? {});
+  const snapshotResponses = await Promise.all(
+    repositoryNames.map((repository) =>
+      send({
+        file: `snapshots_${repository.replace(/[^\w.-]/g, '_').slice(0, 64)}.json`,
+        method: 'GET',
+        path: `/_snapshot/${encodeURIComponent(repository)}/_all`,
+      })
+    )
+  );
+  const responses = [...fixedResponses, ...snapshotResponses];
+
+  let redact = (value: string) => value;
+  if (options.redact) {
+    const redactor = createRedactor(collectNodes(responses, options.config?.nodes));
+    // Never hand out a bundle claiming to be redacted while node names, hosts and IPs are left in
+    if (!redactor) {
+      throw Object.assign(new Error('No node could be read from the cluster, the bundle cannot be redacted'), {
+        statusCode: 502,
+      });
+    }
+    redact = redactor;
+  }
+  const clusterName =
+    responses.find(({ file }) => file === 'cluster_health.json')?.body?.cluster_name ?? 'cluster';
+
+  const timestamp = createdAt.toISOString().replace(/[:.]/g, '-');
+  const safeClusterName = String(clusterName).replace(/[^\w.-]/g, '_').slice(0, 64);
+  const name = `${PLUGIN_ID}-diagnostics-${safeClusterName}-${timestamp}`;
+
+  const manifest = {
+    created_at: createdAt.toISOString(),
+    cluster_name: clusterName,
+    data_source_id: options.dataSourceId || null,
+    redacted: options.redact,
+    files: [
+      ...responses.map(({ file, request, error, took }) => ({
+        file,
+        api: `${request.method} ${request.path}`,
+        querystring: request.querystring ?? {},
+        status: error ? 'error' : 'ok',
+        error: error && { ...error, message: redact(error.message) },
+        took_in_millis: took,
+      })),
+      { file: 'plugin_config.json', api: null, querystring: {}, status: 'ok', error: null, took_in_millis: 0 },
+    ],
+  };
+
+  const toJson = (value: any) => JSON.stringify(redactValue(value, redact), null, 2);
+  const archive = createTarGz(
+    [
+      { name: `${name}/manifest.json`, content: JSON.stringify(manifest, null, 2) },
+      ...responses.map(({ file, body }) => ({ name: `${name}/${file}`, content: toJson(body) })),
+      { name: `${name}/plugin_config.json`, content: toJson(options.config) },
+    ],
+    createdAt.getTime()
+  );
+
+  return { fileName: `${name}.tar.gz`, archive };
+}
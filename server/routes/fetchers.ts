@@ -0,0 +1,89 @@
+import { OpenSearchClient } from '../../../../src/core/server';
+import { ClusterHealth, ClusterNode, ClusterStats, ShardRecovery } from '../../common';
+import { formatNodeStats } from './utils/formatNodeStats';
+import { formatRecoveryStats } from './utils/formatRecoveryStats';
+import { formatClusterStats } from './utils/formatClusterStats';
+import { formatShardStats } from './utils/formatShardStats';
+import { getStatusCode } from './permissions';
+
+/**
+ * Nodes stats, with the OpenSearch and JVM versions of each node.
+ * Versions need `cluster:monitor/nodes/info`: without it they are left out rather than failing the nodes.
+ * Fetchers are shared by the routes and the server start contract.
+ */
+export async function fetchNodes(client: OpenSearchClient): Promise<ClusterNode[]> {
+  const [result, info] = await Promise.all([
+    client.transport.request({
+      method: 'GET',
+      path: '/_nodes/stats/fs,os,jvm,breaker',
+    }),
+    client.transport
+      .request({ method: 'GET', path: '/_nodes/jvm' })
+      .catch((err) => {
+        const statusCode = getStatusCode(err);
+        if (statusCode === 401 || statusCode === 403) return { body: null };
+        throw err;
+      }),
+  ]);
+  return formatNodeStats(result.body?.nodes ?? {}, info.body?.nodes ?? {});
+}
+
+/**
+ * Cluster health.
+ */
+export async function fetchHealth(client: OpenSearchClient): Promise<ClusterHealth> {
+  const result = await client.transport.request({
+    method: 'GET',
+    path: '/_cluster/health',
+  });
+  return result.body;
+}
+
+/**
+ * Cluster statistics.
+ */
+export async function fetchClusterStats(client: OpenSearchClient): Promise<ClusterStats> {
+  const result = await client.transport.request({
+    method: 'GET',
+    path: '/_cluster/stats',
+  });
+  return formatClusterStats(result.body);
+}
+
+/**
+ * Recovery of every shard, including completed recoveries.
+ */
+export async function fetchRecovery(client: OpenSearchClient): Promise<ShardRecovery[]> {
+  const result = await client.transport.request({
+    method: 'GET',
+    path: '/_recovery?detailed',
+  });
+  return formatRecoveryStats(result.body ?? {});
+}
+
+/**
+ * Running snapshots.
+ */
+export async function fetchSnapshotStatus(client: OpenSearchClient) {
+  const result = await client.transport.request({
+    method: 'GET',
+    path: '/_snapshot/_status',
+  });
+  return result.body ?? {};
+}
+
+/**
+ * Every shard with its state, size and node.
+ */
+export async function fetchShards(client: OpenSearchClient) {
+  const result = await client.transport.request({
+    method: 'GET',
+    path: '/_cat/shards',
+    querystring: {
+      format: 'json',
+      bytes: 'b',
+      h: 'index,shard,prirep,state,docs,store,node,unassigned.reason,unassigned.at',
+    },
+  });
+  return formatShardStats(result.body ?? []);
+}
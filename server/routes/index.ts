@@ -1,31 +1,151 @@
-import { IRouter } from '../../../../src/core/server';
-import { formatNodeStats } from './utils/formatNodeStats';
-import { formatRecoveryStats } from './utils/formatRecoveryStats';
+import { PassThrough } from 'stream';
+import { schema, TypeOf } from '@osd/config-schema';
+import { IRouter, OpenSearchClient, RouteValidatorConfig } from '../../../../src/core/server';
 import { formatClusterStats } from './utils/formatClusterStats';
+import { formatIndexStats } from './utils/formatIndexStats';
+import { formatAllocationExplain } from './utils/formatAllocationExplain';
+import { formatThreadPoolStats } from './utils/formatThreadPoolStats';
+import { formatPendingTasks, formatTasks } from './utils/formatTaskStats';
+import { formatSnapshotHistory, formatSnapshotRepositories, formatSnapshotSizes } from './utils/formatSnapshotStats';
+import { formatDiskWatermarks, formatNodeWatermarks } from './utils/formatDiskWatermarks';
+import { formatAwarenessAttributes } from './utils/formatAwarenessAttributes';
+import { formatExpectedNodes } from './utils/formatExpectedNodes';
+import { formatUpgradeStatus } from './utils/formatUpgradeStatus';
+import { formatPrometheusMetrics } from './utils/formatPrometheusMetrics';
+import { formatNodeDetails } from './utils/formatNodeDetails';
+import { HistoryCollector } from '../services/historyCollector';
+import { AlertEvaluator } from '../services/alertEvaluator';
+import { ResponseCache } from '../services/responseCache';
+import {
+  checkPermissions,
+  getErrorMessage,
+  getStatusCode,
+  requirePermissions,
+  ROUTE_PERMISSIONS,
+} from './permissions';
+import { createDiagnosticsBundle } from './diagnostics';
+import {
+  fetchClusterStats,
+  fetchHealth,
+  fetchNodes,
+  fetchRecovery,
+  fetchShards,
+  fetchSnapshotStatus,
+} from './fetchers';
 import { PLUGIN_ID } from '../../common';
 
+/**
+ * Query parameter accepted by every route to target a data source instead of the local cluster.
+ * Routes declaring their own query validation must include it.
+ */
+const dataSourceQuery = {
+  dataSourceId: schema.maybe(schema.string()),
+};
+
+const dataSourceQuerySchema = schema.object(dataSourceQuery);
+
+type DataSourceQuery = TypeOf<typeof dataSourceQuerySchema>;
+
+/**
+ * Returns the client of the requested data source, or the current user client of the local cluster.
+ *
+ * @param context - Route handler context.
+ * @param dataSourceId - Optional data source saved object id.
+ */
+async function getClient(context: any, dataSourceId?: string): Promise<OpenSearchClient> {
+  if (!dataSourceId) {
+    return context.core.opensearch.client.asCurrentUser;
+  }
+  if (!context.dataSource) {
+    throw new Error('Multiple data sources are not enabled');
+  }
+  return context.dataSource.opensearch.getClient(dataSourceId);
+}
+
+/**
+ * Returns the principal the client acts as, so that responses cached for one user are never served to another.
+ * Clusters without the security plugin answer 400 or 404: every user then has the same access.
+ *
+ * @param client - Client of the current user on the monitored cluster.
+ */
+async function getPrincipal(client: OpenSearchClient): Promise<string> {
+  try {
+    const result = await client.transport.request({ method: 'GET', path: '/_plugins/_security/authinfo' });
+    const { user_name: userName, roles = [], backend_roles: backendRoles = [] } = result.body ?? {};
+    return JSON.stringify([userName, [...roles].sort(), [...backendRoles].sort()]);
+  } catch (err) {
+    const statusCode = getStatusCode(err);
+    if (statusCode === 400 || statusCode === 404) return '';
+    throw err;
+  }
+}
+
+/**
+ * Rejects the routes serving data the background services collect on the local cluster when a data source is
+ * requested, so that the permissions of the user are checked on the cluster the data comes from.
+ *
+ * @param request - Route request.
+ */
+function requireLocalCluster(request: any) {
+  if (request.query.dataSourceId) {
+    throw Object.assign(new Error('Only available for the local cluster'), { statusCode: 400 });
+  }
+}
+
+/**
+ * Lists the clusters that can be monitored: the local cluster (empty id) and the configured data sources.
+ *
+ * @param context - Route handler context.
+ */
+async function listDataSources(context: any): Promise<{ id: string; title: string }[]> {
+  const local = { id: '', title: 'Local cluster' };
+  if (!context.dataSource) return [local];
+
+  const result = await context.core.savedObjects.client.find({
+    type: 'data-source',
+    perPage: 1000,
+    fields: ['title'],
+  });
+  return [
+    local,
+    ...result.saved_objects.map((dataSource: any) => ({
+      id: dataSource.id,
+      title: dataSource.attributes?.title ?? dataSource.id,
+    })),
+  ];
+}
+
 /**
  * Utility to simplify route creation.
+ * Failures keep the OpenSearch status code; 403 answers name the permissions listed in ROUTE_PERMISSIONS.
  *
  * @param router - OpenSearch Dashboards router instance.
  * @param path - API endpoint path.
- * @param handler - Function that fetches and transforms the data.
+ * @param handler - Function that fetches and transforms the data, given the client of the requested cluster.
+ * @param validate - Optional request validation (needed to read params/body or extra query parameters).
+ * @param method - HTTP method of the route.
  */
 function createRoute(
   router: IRouter,
   path: string,
-  handler: (context: any) => Promise<any>
+  handler: (context: any, request: any, client: OpenSearchClient) => Promise<any>,
+  validate: RouteValidatorConfig<any, any, any> = {},
+  method: 'get' | 'post' = 'get'
 ) {
-  router.get(
-    { path: `/api/${PLUGIN_ID}${path}`, validate: false },
+  // Extra query parameters of the route extend the data source query
+  router[method]<any, DataSourceQuery, any>(
+    { path: `/api/${PLUGIN_ID}${path}`, validate: { query: dataSourceQuerySchema, ...validate } },
     async (context, request, response) => {
       try {
-        const body = await handler(context);
+        const client = await getClient(context, request.query.dataSourceId);
+        const body = await handler(context, request, client);
         return response.ok({ body });
       } catch (err) {
+        // Pass the OpenSearch status through, naming the permissions of the route when access is denied
+        const statusCode = getStatusCode(err);
         return response.customError({
-          statusCode: 500,
-          body: { message: err },
+          statusCode: statusCode >= 400 ? statusCode : 500,
+          body: { message: getErrorMessage(err, path), attributes: { permissions: ROUTE_PERMISSIONS[path] ?? [] } },
         });
       }
     }
@@ -37,55 +157,556 @@ function createRoute(
  *
  * @param router - OpenSearch Dashboards router instance.
  * @param getConfig - Function to retrieve plugin configuration.
+ * @param history - Background metrics history collector.
+ * @param alerts - Background alert rule evaluator.
+ * @param cache - Cache of the cluster responses served by the overview route.
  */
-export function defineRoutes(router: IRouter, getConfig: () => any) {
+export function defineRoutes(
+  router: IRouter,
+  getConfig: () => any,
+  history: HistoryCollector,
+  alerts: AlertEvaluator,
+  cache: ResponseCache
+) {
+  const getFormattedConfig = () => {
+    const config = getConfig();
+    if (!config) return [];
+    return { ...config, nodes: formatExpectedNodes(config.nodes) };
+  };
+
   // Nodes stats
-  createRoute(router, '/nodes_stats', async (context) => {
-    const result = await context.core.opensearch.client.asCurrentUser.transport.request({
+  createRoute(router, '/nodes_stats', async (context, request, client) => fetchNodes(client));
+
+  // Everything about one node: info, stats, shards and recoveries
+  createRoute(
+    router,
+    '/nodes/{nodeId}',
+    async (context, request, client) => {
+      const nodeId = encodeURIComponent(request.params.nodeId);
+      const [info, stats, shards, recoveries] = await Promise.all([
+        client.transport.request({
+          method: 'GET',
+          path: `/_nodes/${nodeId}`,
+        }),
+        client.transport.request({
+          method: 'GET',
+          path: `/_nodes/${nodeId}/stats/os,process,jvm,fs`,
+        }),
+        fetchShards(client),
+        fetchRecovery(client),
+      ]);
+
+      // Unknown ids match no node instead of failing
+      const [id, nodeInfo] = Object.entries<any>(info.body?.nodes ?? {})[0] ?? [];
+      if (!id) {
+        throw Object.assign(new Error(`Node [${request.params.nodeId}] not found`), { statusCode: 404 });
+      }
+      return formatNodeDetails(id, nodeInfo, stats.body?.nodes?.[id] ?? {}, shards, recoveries);
+    },
+    {
+      params: schema.object({
+        nodeId: schema.string(),
+      }),
+    }
+  );
+
+  // Disk watermarks and per-node headroom
+  createRoute(router, '/disk_watermarks', async (context, request, client) => {
+    const [settingsResult, nodesResult] = await Promise.all([
+      client.transport.request({
+        method: 'GET',
+        path: '/_cluster/settings',
+        querystring: { include_defaults: true, flat_settings: true },
+      }),
+      client.transport.request({
+        method: 'GET',
+        path: '/_nodes/stats/fs',
+      }),
+    ]);
+    const watermarks = formatDiskWatermarks(settingsResult.body ?? {});
+
+    return {
+      watermarks,
+      nodes: formatNodeWatermarks(nodesResult.body?.nodes ?? {}, watermarks),
+    };
+  });
+
+  // Shard allocation awareness attributes, the default grouping of the topology graph
+  createRoute(router, '/awareness_attributes', async (context, request, client) => {
+    const result = await client.transport.request({
       method: 'GET',
-      path: '/_nodes/stats/fs,os',
+      path: '/_cluster/settings',
+      querystring: { include_defaults: true, flat_settings: true },
     });
-    return formatNodeStats(result.body?.nodes ?? {});
+    return { attributes: formatAwarenessAttributes(result.body ?? {}) };
   });
 
   // Cluster health
-  createRoute(router, '/cluster_health', async (context) => {
-    const result = await context.core.opensearch.client.asCurrentUser.transport.request({
+  createRoute(router, '/cluster_health', async (context, request, client) => {
+    return { data: await fetchHealth(client) };
+  });
+
+  // Cluster stats
+  createRoute(router, '/cluster_stats', async (context, request, client) => fetchClusterStats(client));
+
+  // Recovery
+  createRoute(router, '/recovery', async (context, request, client) => fetchRecovery(client));
+
+  // Parts of the overview, with the route whose permissions they need
+  const overviewParts: Record<string, [string, (client: OpenSearchClient) => Promise<any>]> = {
+    health: ['/cluster_health', fetchHealth],
+    stats: ['/cluster_stats', fetchClusterStats],
+    nodes: ['/nodes_stats', fetchNodes],
+    recovery: ['/recovery', fetchRecovery],
+    snapshots: ['/snapshots', fetchSnapshotStatus],
+  };
+
+  /**
+   * Returns the cache scope of a caller: entries are loaded with the caller's credentials,
+   * so they are only shared by callers of the same cluster acting as the same principal.
+   */
+  const getCacheScope = async (client: OpenSearchClient, dataSourceId: string) =>
+    `${dataSourceId}:${await getPrincipal(client)}`;
+
+  const getCachedPart = (
+    client: OpenSearchClient,
+    scope: string,
+    name: string,
+    fetcher: (client: OpenSearchClient) => Promise<any>
+  ) => {
+    const ttl = (getConfig()?.overview?.cache_ttl ?? 5) * 1000;
+    return cache.get(`${scope}:${name}`, ttl, () => fetcher(client));
+  };
+
+  // Batched overview: each API is cached per cluster and user, and concurrent callers share one upstream request.
+  // A failing API only fails its own part of the response.
+  createRoute(router, '/overview', async (context, request, client) => {
+    const scope = await getCacheScope(client, request.query.dataSourceId ?? '');
+
+    const overview: Record<string, any> = { config: getFormattedConfig(), errors: {} };
+    const timestamps: number[] = [];
+    await Promise.all(
+      Object.entries(overviewParts).map(async ([name, [path, fetcher]]) => {
+        try {
+          const { value, timestamp } = await getCachedPart(client, scope, name, fetcher);
+          overview[name] = value;
+          timestamps.push(timestamp);
+        } catch (err) {
+          overview[name] = null;
+          overview.errors[name] = { status_code: getStatusCode(err), message: getErrorMessage(err, path) };
+        }
+      })
+    );
+
+    // The oldest part tells when the data was collected
+    return { timestamp: timestamps.length > 0 ? Math.min(...timestamps) : Date.now(), ...overview };
+  });
+
+  // Live updates pushed as server-sent events: health, nodes and recovery are sent whenever they change.
+  // Parts come from the overview cache, so subscribed tabs of the same user share the requests to the cluster.
+  router.get(
+    { path: `/api/${PLUGIN_ID}/stream`, validate: { query: dataSourceQuerySchema } },
+    async (context, request, response) => {
+      if (!(getConfig()?.stream?.enabled ?? true)) {
+        return response.notFound();
+      }
+
+      let client: OpenSearchClient;
+      let scope: string;
+      try {
+        client = await getClient(context, request.query.dataSourceId);
+        scope = await getCacheScope(client, request.query.dataSourceId ?? '');
+      } catch (err) {
+        const statusCode = getStatusCode(err);
+        return response.customError({
+          statusCode: statusCode >= 400 ? statusCode : 500,
+          body: { message: err?.message ?? String(err) },
+        });
+      }
+
+      const stream = new PassThrough();
+      const lastSent: Record<string, string> = {};
+      // Requests still running when the page disconnects must not write to the closed stream
+      const write = (chunk: string) => {
+        if (!stream.writableEnded) stream.write(chunk);
+      };
+
+      const push = async () => {
+        await Promise.all(
+          ['health', 'nodes', 'recovery'].map(async (name) => {
+            try {
+              const { value, timestamp } = await getCachedPart(client, scope, name, overviewParts[name][1]);
+              const data = JSON.stringify(value);
+              if (data === lastSent[name]) return;
+              lastSent[name] = data;
+              write(`event: ${name}\ndata: {"timestamp":${timestamp},"data":${data}}\n\n`);
+            } catch (err) {
+              // Failures are reported by the overview route polled by the page
+            }
+          })
+        );
+        // Comment line keeping proxies from closing an idle connection
+        write(': keep-alive\n\n');
+      };
+
+      push();
+      const timer = setInterval(push, (getConfig()?.stream?.interval ?? 5) * 1000);
+      request.events.aborted$.subscribe(() => {
+        clearInterval(timer);
+        stream.end();
+      });
+
+      return response.ok({
+        body: stream,
+        headers: {
+          'content-type': 'text/event-stream',
+          'cache-control': 'no-cache',
+          // Events must not be held back by compression or proxy buffering
+          'content-encoding': 'identity',
+          'x-accel-buffering': 'no',
+        },
+      });
+    }
+  );
+
+  // Prometheus metrics, built from the overview cache so that scrapes share the requests of the page (same user)
+  router.get(
+    { path: `/api/${PLUGIN_ID}/metrics`, validate: { query: dataSourceQuerySchema } },
+    async (context, request, response) => {
+      try {
+        const client = await getClient(context, request.query.dataSourceId);
+        const scope = await getCacheScope(client, request.query.dataSourceId ?? '');
+        const [health, stats, nodes] = await Promise.all(
+          ['health', 'stats', 'nodes'].map(async (name) => {
+            const { value } = await getCachedPart(client, scope, name, overviewParts[name][1]);
+            return value;
+          })
+        );
+
+        return response.ok({
+          body: formatPrometheusMetrics(health, stats, nodes),
+          headers: { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' },
+        });
+      } catch (err) {
+        const statusCode = getStatusCode(err);
+        return response.customError({
+          statusCode: statusCode >= 400 ? statusCode : 500,
+          body: { message: getErrorMessage(err, '/metrics') },
+        });
+      }
+    }
+  );
+
+  // Diagnostics bundle: raw responses of the cluster in a tar.gz archive, for support tickets
+  router.get(
+    {
+      path: `/api/${PLUGIN_ID}/diagnostics`,
+      validate: {
+        query: schema.object({
+          ...dataSourceQuery,
+          redact: schema.boolean({ defaultValue: false }),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const client = await getClient(context, request.query.dataSourceId);
+        const { fileName, archive } = await createDiagnosticsBundle(client, {
+          redact: request.query.redact,
+          config: getFormattedConfig(),
+          dataSourceId: request.query.dataSourceId ?? '',
+        });
+
+        return response.ok({
+          body: archive,
+          headers: {
+            'content-type': 'application/gzip',
+            'content-disposition': `attachment; filename="${fileName}"`,
+          },
+        });
+      } catch (err) {
+        const statusCode = getStatusCode(err);
+        return response.customError({
+          statusCode: statusCode >= 400 ? statusCode : 500,
+          body: { message: getErrorMessage(err, '/diagnostics') },
+        });
+      }
+    }
+  );
+
+  // Clusters available through data sources
+  createRoute(router, '/data_sources', async (context) => {
+    return listDataSources(context);
+  });
+
+  // Fleet overview: health, node count and disk usage of every cluster
+  createRoute(router, '/fleet', async (context) => {
+    const dataSources = await listDataSources(context);
+
+    return Promise.all(
+      dataSources.map(async ({ id, title }) => {
+        try {
+          const client = await getClient(context, id);
+          const [healthResult, statsResult] = await Promise.all([
+            client.transport.request({ method: 'GET', path: '/_cluster/health' }),
+            client.transport.request({ method: 'GET', path: '/_cluster/stats' }),
+          ]);
+          const stats = formatClusterStats(statsResult.body);
+
+          return {
+            id,
+            title,
+            cluster_name: healthResult.body.cluster_name,
+            status: healthResult.body.status,
+            nodes: healthResult.body.number_of_nodes,
+            unassigned_shards: healthResult.body.unassigned_shards,
+            fs: stats.fs,
+            error: null,
+          };
+        } catch (err) {
+          // One unreachable cluster must not hide the others
+          return { id, title, error: err?.message ?? String(err) };
+        }
+      })
+    );
+  });
+
+  // Permissions of the current user on the monitored cluster
+  createRoute(router, '/permissions', async (context, request, client) => {
+    return checkPermissions(client);
+  });
+
+  // Plugin config
+  createRoute(router, '/config', async () => {
+    return { data: getFormattedConfig() };
+  });
+
+  // Snapshots
+  createRoute(router, '/snapshots', async (context, request, client) => fetchSnapshotStatus(client));
+
+  // Snapshot repositories
+  createRoute(router, '/snapshot_repositories', async (context, request, client) => {
+    const result = await client.transport.request({
       method: 'GET',
-      path: '/_cluster/health',
+      path: '/_snapshot',
     });
-    return { data: result.body };
+    return formatSnapshotRepositories(result.body ?? {});
   });
 
-  // Cluster stats
-  createRoute(router, '/cluster_stats', async (context) => {
-    const result = await context.core.opensearch.client.asCurrentUser.transport.request({
+  // Sizes of completed snapshots by cache scope and snapshot uuid: they never change once the snapshot ended
+  const snapshotSizes = new Map<string, number>();
+  const maxSnapshotSizes = 10000;
+
+  // Recent snapshots of a repository, and its last successful snapshot
+  createRoute(
+    router,
+    '/snapshot_repositories/{repository}/snapshots',
+    async (context, request, client) => {
+      const repository = encodeURIComponent(request.params.repository);
+      const scope = await getCacheScope(client, request.query.dataSourceId ?? '');
+
+      // The listing is refreshed less often than the overview: the overview tab reads it on every refresh
+      const ttl = (getConfig()?.overview?.snapshots_cache_ttl ?? 60) * 1000;
+      const { value: listing } = await cache.get(`${scope}:snapshots:${repository}`, ttl, async () => {
+        const result = await client.transport.request({
+          method: 'GET',
+          path: `/_snapshot/${repository}/_all`,
+        });
+        return result.body ?? {};
+      });
+      const all = formatSnapshotHistory(listing, {});
+      // Found before slicing, so that it is not missed when all the recent snapshots failed
+      const lastSuccess = all.find((snapshot) => snapshot.state === 'SUCCESS') ?? null;
+      const snapshots = all.slice(0, request.query.size);
+
+      // Sizes are only available from the status API, which reads every shard from the repository:
+      // it is only called once for each completed snapshot
+      const unknown = [...snapshots, ...(lastSuccess ? [lastSuccess] : [])].filter(
+        (snapshot, i, list) =>
+          snapshot.state !== 'IN_PROGRESS' &&
+          !snapshotSizes.has(`${scope}:${snapshot.uuid}`) &&
+          list.findIndex(({ uuid }) => uuid === snapshot.uuid) === i
+      );
+      if (unknown.length > 0) {
+        try {
+          const names = unknown.map(({ snapshot }) => encodeURIComponent(snapshot)).join(',');
+          const status = await client.transport.request({
+            method: 'GET',
+            path: `/_snapshot/${repository}/${names}/_status`,
+          });
+          Object.entries(formatSnapshotSizes(status.body ?? {})).forEach(([uuid, size]) => {
+            snapshotSizes.set(`${scope}:${uuid}`, size);
+          });
+          // Oldest sizes first out
+          Array.from(snapshotSizes.keys())
+            .slice(0, Math.max(0, snapshotSizes.size - maxSnapshotSizes))
+            .forEach((key) => snapshotSizes.delete(key));
+        } catch (err) {
+          // Sizes are optional, keep the history without them
+        }
+      }
+
+      const withSize = (snapshot: any) => ({
+        ...snapshot,
+        size: snapshotSizes.get(`${scope}:${snapshot.uuid}`) ?? null,
+      });
+      return { snapshots: snapshots.map(withSize), last_success: lastSuccess && withSize(lastSuccess) };
+    },
+    {
+      params: schema.object({
+        repository: schema.string(),
+      }),
+      query: schema.object({
+        ...dataSourceQuery,
+        size: schema.number({ defaultValue: 20, min: 1, max: 200 }),
+      }),
+    }
+  );
+
+  // Indices
+  createRoute(router, '/indices', async (context, request, client) => {
+    const result = await client.transport.request({
       method: 'GET',
-      path: '/_cluster/stats',
+      path: '/_cat/indices',
+      querystring: {
+        format: 'json',
+        bytes: 'b',
+        h: 'health,status,index,uuid,pri,rep,docs.count,docs.deleted,store.size,pri.store.size,segments.count',
+      },
     });
-    return formatClusterStats(result.body);
+    return formatIndexStats(result.body ?? []);
   });
 
-  // Recovery
-  createRoute(router, '/recovery', async (context) => {
-    const result = await context.core.opensearch.client.asCurrentUser.transport.request({
+  // Shards
+  createRoute(router, '/shards', async (context, request, client) => fetchShards(client));
+
+  // Rolling upgrade progress and replicas stuck behind older nodes
+  createRoute(router, '/upgrade_status', async (context, request, client) => {
+    const [info, shards] = await Promise.all([
+      client.transport.request({
+        method: 'GET',
+        path: '/_nodes/jvm',
+      }),
+      fetchShards(client),
+    ]);
+    return formatUpgradeStatus(info.body?.nodes ?? {}, shards);
+  });
+
+  // Unassigned shards
+  createRoute(router, '/unassigned_shards', async (context, request, client) => {
+    const shards = await fetchShards(client);
+    return shards.filter((shard) => shard.state === 'UNASSIGNED');
+  });
+
+  // Allocation explanation for a single shard
+  createRoute(
+    router,
+    '/allocation_explain',
+    async (context, request, client) => {
+      const { index, shard, primary } = request.query;
+      const result = await client.transport.request({
+        method: 'POST',
+        path: '/_cluster/allocation/explain',
+        body: { index, shard, primary },
+      });
+      return formatAllocationExplain(result.body ?? {});
+    },
+    {
+      query: schema.object({
+        ...dataSourceQuery,
+        index: schema.string(),
+        shard: schema.number(),
+        primary: schema.boolean(),
+      }),
+    }
+  );
+
+  // Thread pools, keeping the previous sample of each cluster to report rejections per interval.
+  // The sample is shared by every page of the cluster, so the interval the rejections cover is returned with them.
+  const previousThreadPools: Record<string, { rejected: Record<string, number>; time: number }> = {};
+
+  createRoute(router, '/thread_pools', async (context, request, client) => {
+    const result = await client.transport.request({
       method: 'GET',
-      path: '/_recovery?detailed',
+      path: '/_nodes/stats/thread_pool',
     });
-    return formatRecoveryStats(result.body ?? {});
+    const now = Date.now();
+    const cluster = request.query.dataSourceId ?? '';
+    const previous = previousThreadPools[cluster];
+    const pools = formatThreadPoolStats(result.body?.nodes ?? {}, previous?.rejected ?? {});
+
+    previousThreadPools[cluster] = {
+      rejected: pools.reduce<Record<string, number>>((acc, pool) => {
+        acc[pool.key] = pool.rejected;
+        return acc;
+      }, {}),
+      time: now,
+    };
+
+    return { pools, interval_in_millis: previous ? now - previous.time : null };
   });
 
-  // Plugin config
-  createRoute(router, '/config', async () => {
-    return { data: getConfig() ?? [] };
+  // Pending cluster-state tasks
+  createRoute(router, '/pending_tasks', async (context, request, client) => {
+    const result = await client.transport.request({
+      method: 'GET',
+      path: '/_cluster/pending_tasks',
+    });
+    return formatPendingTasks(result.body ?? {});
   });
 
-  // Snapshots
-  createRoute(router, '/snapshots', async (context) => {
-    const result = await context.core.opensearch.client.asCurrentUser.transport.request({
+  // Running tasks
+  createRoute(router, '/tasks', async (context, request, client) => {
+    const result = await client.transport.request({
       method: 'GET',
-      path: '/_snapshot/_status',
+      path: '/_tasks',
+      querystring: { detailed: true },
     });
-    return result.body ?? {};
+    return formatTasks(result.body ?? {});
+  });
+
+  // Task cancellation
+  createRoute(
+    router,
+    '/tasks/{taskId}/_cancel',
+    async (context, request, client) => {
+      const result = await client.transport.request({
+        method: 'POST',
+        path: `/_tasks/${encodeURIComponent(request.params.taskId)}/_cancel`,
+      });
+      return result.body ?? {};
+    },
+    {
+      params: schema.object({
+        taskId: schema.string(),
+      }),
+    },
+    'post'
+  );
+
+  // Metrics history (collected in the background, local cluster only)
+  createRoute(
+    router,
+    '/history',
+    async (context, request, client) => {
+      requireLocalCluster(request);
+      await requirePermissions(client, ROUTE_PERMISSIONS['/history']);
+      const { from, to } = request.query;
+      return { data: history.getSamples(from, to) };
+    },
+    {
+      query: schema.object({
+        ...dataSourceQuery,
+        from: schema.maybe(schema.number()),
+        to: schema.maybe(schema.number()),
+      }),
+    }
+  );
+
+  // Alerts (evaluated in the background, local cluster only)
+  createRoute(router, '/alerts', async (context, request, client) => {
+    requireLocalCluster(request);
+    await requirePermissions(client, ROUTE_PERMISSIONS['/alerts']);
+    return { data: { active: alerts.getActive(), history: alerts.getHistory() } };
   });
 }
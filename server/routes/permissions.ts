@@ -0,0 +1,160 @@
+import { OpenSearchClient } from '../../../../src/core/server';
+
+/**
+ * Lightweight request needing a single permission, used to check whether the current user holds it.
+ */
+interface PermissionProbe {
+  method: 'GET' | 'POST';
+  path: string;
+  querystring?: Record<string, any>;
+}
+
+/**
+ * Probe of each permission needed by the plugin.
+ * Probes never change the cluster: cluster:admin/tasks/cancel has no read-only probe, so it is only checked
+ * when a task is cancelled.
+ */
+const PERMISSION_PROBES: Record<string, PermissionProbe> = {
+  'cluster:admin/repository/get': { method: 'GET', path: '/_snapshot' },
+  // A missing repository answers 404 once the permission is granted
+  'cluster:admin/snapshot/get': { method: 'GET', path: '/_snapshot/monitoring-permission-check/_all' },
+  'cluster:admin/snapshot/status': { method: 'GET', path: '/_snapshot/_status' },
+  // Answers 400 when no shard is unassigned once the permission is granted
+  'cluster:monitor/allocation/explain': { method: 'GET', path: '/_cluster/allocation/explain' },
+  'cluster:monitor/health': { method: 'GET', path: '/_cluster/health' },
+  'cluster:monitor/nodes/info': { method: 'GET', path: '/_nodes/_local/jvm' },
+  'cluster:monitor/nodes/stats': { method: 'GET', path: '/_nodes/_local/stats/os' },
+  'cluster:monitor/state': { method: 'GET', path: '/_cluster/state/version' },
+  'cluster:monitor/stats': { method: 'GET', path: '/_cluster/stats/nodes/_local' },
+  'cluster:monitor/task': { method: 'GET', path: '/_cluster/pending_tasks' },
+  'cluster:monitor/tasks/lists': {
+    method: 'GET',
+    path: '/_tasks',
+    querystring: { nodes: '_local', actions: 'monitoring:permission-check' },
+  },
+  'indices:monitor/settings/get': { method: 'GET', path: '/_settings/index.number_of_shards' },
+  'indices:monitor/recovery': { method: 'GET', path: '/_recovery', querystring: { active_only: true } },
+  'indices:monitor/stats': { method: 'GET', path: '/_stats/docs', querystring: { level: 'cluster' } },
+};
+
+/**
+ * Permissions needed by each route, keyed by route path.
+ * Routes missing from this map only use the plugin config or background services,
+ * except the diagnostics bundle which records the APIs it cannot read instead of failing.
+ */
+export const ROUTE_PERMISSIONS: Record<string, string[]> = {
+  '/nodes_stats': ['cluster:monitor/nodes/stats'],
+  '/nodes/{nodeId}': [
+    'cluster:monitor/nodes/info',
+    'cluster:monitor/nodes/stats',
+    'cluster:monitor/state',
+    'indices:monitor/stats',
+    'indices:monitor/recovery',
+  ],
+  '/disk_watermarks': ['cluster:monitor/state', 'cluster:monitor/nodes/stats'],
+  '/awareness_attributes': ['cluster:monitor/state'],
+  '/cluster_health': ['cluster:monitor/health'],
+  '/cluster_stats': ['cluster:monitor/stats'],
+  '/recovery': ['indices:monitor/recovery'],
+  '/snapshots': ['cluster:admin/snapshot/status'],
+  '/snapshot_repositories': ['cluster:admin/repository/get'],
+  '/snapshot_repositories/{repository}/snapshots': ['cluster:admin/snapshot/get', 'cluster:admin/snapshot/status'],
+  // _cat/indices reads the state, health, stats and settings of the indices
+  '/indices': [
+    'cluster:monitor/state',
+    'cluster:monitor/health',
+    'indices:monitor/stats',
+    'indices:monitor/settings/get',
+  ],
+  '/shards': ['cluster:monitor/state', 'indices:monitor/stats'],
+  '/upgrade_status': ['cluster:monitor/nodes/info', 'cluster:monitor/state', 'indices:monitor/stats'],
+  '/unassigned_shards': ['cluster:monitor/state', 'indices:monitor/stats'],
+  '/allocation_explain': ['cluster:monitor/allocation/explain'],
+  '/thread_pools': ['cluster:monitor/nodes/stats'],
+  '/pending_tasks': ['cluster:monitor/task'],
+  '/tasks': ['cluster:monitor/tasks/lists'],
+  '/tasks/{taskId}/_cancel': ['cluster:admin/tasks/cancel'],
+  '/metrics': ['cluster:monitor/health', 'cluster:monitor/stats', 'cluster:monitor/nodes/stats'],
+  // Collected with the internal user: the current user must be able to read the same APIs
+  '/history': ['cluster:monitor/nodes/stats', 'cluster:monitor/stats'],
+  '/alerts': ['cluster:monitor/health', 'cluster:monitor/stats', 'cluster:monitor/nodes/stats'],
+};
+
+/**
+ * Returns the HTTP status of an OpenSearch client error.
+ */
+export function getStatusCode(err: any): number {
+  return err?.statusCode ?? err?.meta?.statusCode ?? 500;
+}
+
+/**
+ * Returns the message of a failed route, naming the permissions of the route when access is denied.
+ *
+ * @param err - OpenSearch client error.
+ * @param path - Route path, as listed in ROUTE_PERMISSIONS.
+ */
+export function getErrorMessage(err: any, path: string): string {
+  const permissions = err?.permissions ?? ROUTE_PERMISSIONS[path] ?? [];
+  return getStatusCode(err) === 403 && permissions.length > 0
+    ? `Missing permission, this panel requires: ${permissions.join(', ')}`
+    : err?.message ?? String(err);
+}
+
+/**
+ * Returns whether the client holds a permission, by sending its probe.
+ * Only a 401/403 answer means the permission is missing.
+ */
+async function hasPermission(client: OpenSearchClient, permission: string): Promise<boolean> {
+  try {
+    await client.transport.request(PERMISSION_PROBES[permission]);
+    return true;
+  } catch (err) {
+    const statusCode = getStatusCode(err);
+    return statusCode !== 401 && statusCode !== 403;
+  }
+}
+
+/**
+ * Throws a 403 error naming the missing permissions, for routes serving data read with the internal user.
+ *
+ * @param client - Client of the current user.
+ * @param permissions - Permissions the user needs, as listed in ROUTE_PERMISSIONS.
+ */
+export async function requirePermissions(client: OpenSearchClient, permissions: string[]) {
+  const granted = await Promise.all(permissions.map((permission) => hasPermission(client, permission)));
+  const missing = permissions.filter((permission, i) => !granted[i]);
+  if (missing.length > 0) {
+    throw Object.assign(new Error(`Missing permission: ${missing.join(', ')}`), {
+      statusCode: 403,
+      permissions: missing,
+    });
+  }
+}
+
+/**
+ * Checks every permission needed by the plugin and lists the routes that are unavailable.
+ * Only a 401/403 answer means the permission is missing: any other error leaves the route available,
+ * so that its own error is reported when it is called.
+ *
+ * @param client - Client of the current user on the monitored cluster.
+ */
+export async function checkPermissions(client: OpenSearchClient) {
+  const permissions = await Promise.all(
+    Object.keys(PERMISSION_PROBES).map(async (permission) => ({
+      permission,
+      granted: await hasPermission(client, permission),
+    }))
+  );
+
+  const missing = permissions.filter(({ granted }) => !granted).map(({ permission }) => permission);
+  const unavailable = Object.entries(ROUTE_PERMISSIONS).reduce<Record<string, string[]>>(
+    (acc, [path, needed]) => {
+      const routeMissing = needed.filter((permission) => missing.includes(permission));
+      if (routeMissing.length > 0) acc[path] = routeMissing;
+      return acc;
+    },
+    {}
+  );
+
+  return { permissions, unavailable };
+}
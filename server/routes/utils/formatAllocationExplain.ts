@@ -0,0 +1,73 @@
+/**
+ * Readable labels for the allocation deciders returned by `_cluster/allocation/explain`.
+ */
+const DECIDER_LABELS: Record<string, string> = {
+  awareness: 'Allocation awareness',
+  cluster_rebalance: 'Cluster rebalance',
+  concurrent_rebalance: 'Concurrent rebalance limit',
+  disk_threshold: 'Disk watermark',
+  enable: 'Allocation disabled',
+  filter: 'Allocation filtering',
+  max_retry: 'Maximum allocation retries reached',
+  node_version: 'Node version too old',
+  rebalance_only_when_active: 'Rebalance only when active',
+  replica_after_primary_active: 'Primary not active yet',
+  restore_in_progress: 'Restore in progress',
+  same_shard: 'Copy of the shard already on node',
+  shards_limit: 'Total shards per node limit',
+  snapshot_in_progress: 'Snapshot in progress',
+  throttling: 'Recovery throttling',
+};
+
+function labelFor(decider: string): string {
+  return DECIDER_LABELS[decider] ?? decider;
+}
+
+export function formatAllocationExplain(rawData: any) {
+  const nodes = (rawData.node_allocation_decisions ?? []).map((node: any) => ({
+    node_id: node.node_id,
+    node_name: node.node_name,
+    decision: node.node_decision,
+    deciders: (node.deciders ?? [])
+      .filter((decider: any) => decider.decision === 'NO' || decider.decision === 'THROTTLE')
+      .map((decider: any) => ({
+        decider: decider.decider,
+        label: labelFor(decider.decider),
+        decision: decider.decision,
+        explanation: decider.explanation,
+      })),
+  }));
+
+  // Group the blocking deciders across nodes so the most common reasons come first
+  const reasons: Record<string, { decider: string; label: string; explanation: string; nodes: string[] }> = {};
+  nodes.forEach((node: any) => {
+    node.deciders.forEach((decider: any) => {
+      if (!reasons[decider.decider]) {
+        reasons[decider.decider] = {
+          decider: decider.decider,
+          label: decider.label,
+          explanation: decider.explanation,
+          nodes: [],
+        };
+      }
+      reasons[decider.decider].nodes.push(node.node_name);
+    });
+  });
+
+  return {
+    index: rawData.index,
+    shard: rawData.shard,
+    primary: rawData.primary,
+    current_state: rawData.current_state,
+    can_allocate: rawData.can_allocate ?? null,
+    explanation: rawData.allocate_explanation ?? null,
+    unassigned_info: {
+      reason: rawData.unassigned_info?.reason ?? null,
+      at: rawData.unassigned_info?.at ?? null,
+      details: rawData.unassigned_info?.details ?? null,
+      last_allocation_status: rawData.unassigned_info?.last_allocation_status ?? null,
+    },
+    reasons: Object.values(reasons).sort((a, b) => b.nodes.length - a.nodes.length),
+    nodes,
+  };
+}
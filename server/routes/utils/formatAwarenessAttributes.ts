@@ -0,0 +1,12 @@
+/**
+ * Reads the effective shard allocation awareness attributes (transient > persistent > defaults)
+ * from `_cluster/settings?include_defaults&flat_settings`, in their configured order.
+ * The setting is either a comma-separated string ("zone,rack") or a list.
+ */
+export function formatAwarenessAttributes(rawSettings: any): string[] {
+  const key = 'cluster.routing.allocation.awareness.attributes';
+  const value = rawSettings?.transient?.[key] ?? rawSettings?.persistent?.[key] ?? rawSettings?.defaults?.[key];
+  const attributes: string[] = Array.isArray(value) ? value : String(value ?? '').split(',');
+
+  return attributes.map((attribute) => String(attribute).trim()).filter((attribute) => attribute.length > 0);
+}
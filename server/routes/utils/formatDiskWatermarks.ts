@@ -0,0 +1,90 @@
+import { calculatePercentage } from './common';
+
+const WATERMARKS = ['low', 'high', 'flood_stage'] as const;
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+  pb: 1024 ** 5,
+};
+
+/**
+ * Parses a disk watermark setting, which is either a percentage ("85%"), a ratio ("0.85")
+ * or an absolute amount of free space ("500mb").
+ */
+export function parseWatermark(value: string): { type: 'percent' | 'bytes'; value: number } | null {
+  const raw = String(value ?? '').trim().toLowerCase();
+
+  if (raw.endsWith('%')) {
+    return { type: 'percent', value: parseFloat(raw) };
+  }
+
+  const bytes = raw.match(/^([\d.]+)\s*(b|kb|mb|gb|tb|pb)$/);
+  if (bytes) {
+    return { type: 'bytes', value: parseFloat(bytes[1]) * BYTE_UNITS[bytes[2]] };
+  }
+
+  const ratio = parseFloat(raw);
+  return Number.isFinite(ratio) ? { type: 'percent', value: ratio * 100 } : null;
+}
+
+/**
+ * Reads the effective disk watermark settings (transient > persistent > defaults)
+ * from `_cluster/settings?include_defaults&flat_settings`.
+ */
+export function formatDiskWatermarks(rawSettings: any) {
+  const get = (key: string) =>
+    rawSettings?.transient?.[key] ?? rawSettings?.persistent?.[key] ?? rawSettings?.defaults?.[key];
+
+  return {
+    enabled: String(get('cluster.routing.allocation.disk.threshold_enabled') ?? 'true') === 'true',
+    low: get('cluster.routing.allocation.disk.watermark.low') ?? null,
+    high: get('cluster.routing.allocation.disk.watermark.high') ?? null,
+    flood_stage: get('cluster.routing.allocation.disk.watermark.flood_stage') ?? null,
+  };
+}
+
+/**
+ * Computes, for each node, the disk usage thresholds of each watermark and the remaining headroom.
+ *
+ * @param nodesObj - `nodes` object of `_nodes/stats/fs`.
+ * @param watermarks - Output of `formatDiskWatermarks`.
+ */
+export function formatNodeWatermarks(nodesObj: any, watermarks: any): any[] {
+  return Object.entries(nodesObj).map(([id, node]: any) => {
+    const total = node.fs?.total?.total_in_bytes ?? 0;
+    const free = node.fs?.total?.available_in_bytes ?? node.fs?.total?.free_in_bytes ?? 0;
+    const used = total - free;
+
+    const thresholds = WATERMARKS.reduce<Record<string, any>>((acc, name) => {
+      const parsed = parseWatermark(watermarks[name]);
+      if (!parsed) {
+        acc[name] = null;
+        return acc;
+      }
+
+      // Absolute watermarks define the minimum free space, percentages the maximum usage
+      const threshold = parsed.type === 'percent' ? (total * parsed.value) / 100 : total - parsed.value;
+      acc[name] = {
+        setting: watermarks[name],
+        threshold,
+        percent: calculatePercentage(threshold, total),
+        headroom: threshold - used,
+      };
+      return acc;
+    }, {});
+
+    const exceeded = [...WATERMARKS].reverse().find((name) => thresholds[name] && thresholds[name].headroom <= 0);
+
+    return {
+      id,
+      name: node.name,
+      fs: { total, used, free },
+      watermarks: thresholds,
+      level: watermarks.enabled ? exceeded ?? 'ok' : 'ok',
+    };
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * Normalizes the `monitoring.nodes` config, where each entry is either a node name
+ * or an object stating the expected roles, zone and host of the node.
+ * Unset expectations are returned as null and are not checked.
+ */
+export function formatExpectedNodes(rawData: any[]): any[] {
+  return (rawData ?? []).map((node: any) => {
+    if (typeof node === 'string') {
+      return { name: node, roles: null, zone: null, host: null };
+    }
+    return {
+      name: node.name,
+      roles: node.roles ? [...node.roles].sort() : null,
+      zone: node.zone ?? null,
+      host: node.host ?? null,
+    };
+  });
+}
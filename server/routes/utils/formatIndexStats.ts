@@ -0,0 +1,27 @@
+/**
+ * Converts a `_cat` value (returned as a string) to a number.
+ */
+function toNumber(value: any): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function formatIndexStats(rawData: any[]): any[] {
+  return (rawData ?? []).map((index: any) => ({
+    index: index.index,
+    uuid: index.uuid,
+    health: index.health ?? 'unknown',
+    status: index.status,
+    primaries: toNumber(index.pri),
+    replicas: toNumber(index.rep),
+    docs: {
+      count: toNumber(index['docs.count']),
+      deleted: toNumber(index['docs.deleted']),
+    },
+    store: {
+      primaries: toNumber(index['pri.store.size']),
+      total: toNumber(index['store.size']),
+    },
+    segments: toNumber(index['segments.count']),
+  }));
+}
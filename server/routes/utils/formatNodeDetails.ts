@@ -0,0 +1,100 @@
+import { calculatePercentage } from './common';
+
+/**
+ * Formats the filesystem of a node, with the usage of each data path.
+ */
+function formatFs(fs: any) {
+  const formatUsage = (total: number, free: number, available: number) => ({
+    total,
+    free,
+    available,
+    used: total - free,
+    percent: calculatePercentage(total - free, total),
+  });
+
+  return {
+    total: formatUsage(
+      fs?.total?.total_in_bytes ?? 0,
+      fs?.total?.free_in_bytes ?? 0,
+      fs?.total?.available_in_bytes ?? 0
+    ),
+    data: (fs?.data ?? []).map((path: any) => ({
+      path: path.path,
+      mount: path.mount ?? null,
+      type: path.type ?? null,
+      ...formatUsage(path.total_in_bytes ?? 0, path.free_in_bytes ?? 0, path.available_in_bytes ?? 0),
+    })),
+  };
+}
+
+/**
+ * Formats everything known about one node: its info (`_nodes/{id}`), its stats (`_nodes/{id}/stats`),
+ * the formatted shards it holds and the formatted recoveries going to or from it.
+ *
+ * @param id - Node id.
+ * @param info - Info of the node, as found in `_nodes/{id}`.
+ * @param stats - Stats of the node, as found in `_nodes/{id}/stats`.
+ * @param shards - Formatted shards of the cluster.
+ * @param recoveries - Formatted recoveries of the cluster.
+ */
+export function formatNodeDetails(id: string, info: any, stats: any, shards: any[], recoveries: any[]) {
+  const heap = stats?.jvm?.mem ?? {};
+  const mem = stats?.os?.mem ?? {};
+
+  return {
+    id,
+    name: info.name,
+    host: info.host,
+    ip: info.ip,
+    transport_address: info.transport_address,
+    http_address: info.http?.publish_address ?? null,
+    version: info.version,
+    build_hash: info.build_hash ?? null,
+    roles: [...(info.roles ?? [])].sort(),
+    attributes: info.attributes ?? {},
+    jvm: {
+      version: info.jvm?.version ?? null,
+      vm_name: info.jvm?.vm_name ?? null,
+      vm_vendor: info.jvm?.vm_vendor ?? null,
+      start_time: info.jvm?.start_time_in_millis ?? null,
+      uptime: stats?.jvm?.uptime_in_millis ?? null,
+      gc_collectors: info.jvm?.gc_collectors ?? [],
+      input_arguments: info.jvm?.input_arguments ?? [],
+      heap: {
+        init: info.jvm?.mem?.heap_init_in_bytes ?? null,
+        used: heap.heap_used_in_bytes ?? 0,
+        max: heap.heap_max_in_bytes ?? info.jvm?.mem?.heap_max_in_bytes ?? 0,
+        percent: calculatePercentage(heap.heap_used_in_bytes ?? 0, heap.heap_max_in_bytes ?? 0),
+      },
+      threads: stats?.jvm?.threads?.count ?? null,
+    },
+    os: {
+      name: info.os?.name ?? null,
+      pretty_name: info.os?.pretty_name ?? null,
+      arch: info.os?.arch ?? null,
+      version: info.os?.version ?? null,
+      available_processors: info.os?.available_processors ?? null,
+      allocated_processors: info.os?.allocated_processors ?? null,
+      cpu_percent: stats?.os?.cpu?.percent ?? null,
+      load_average: stats?.os?.cpu?.load_average ?? {},
+      mem: {
+        total: mem.total_in_bytes ?? 0,
+        used: mem.used_in_bytes ?? 0,
+        percent: calculatePercentage(mem.used_in_bytes ?? 0, mem.total_in_bytes ?? 0),
+      },
+    },
+    process: {
+      id: info.process?.id ?? null,
+      mlockall: info.process?.mlockall ?? null,
+      cpu_percent: stats?.process?.cpu?.percent ?? null,
+      open_file_descriptors: stats?.process?.open_file_descriptors ?? null,
+      max_file_descriptors: stats?.process?.max_file_descriptors ?? null,
+    },
+    fs: formatFs(stats?.fs),
+    // Relocating shards are listed on both their source and target nodes
+    shards: shards.filter((shard) => shard.node === info.name || shard.relocating_node === info.name),
+    recoveries: recoveries.filter(
+      (recovery) => recovery.source_node === info.name || recovery.target_node === info.name
+    ),
+  };
+}
@@ -1,6 +1,24 @@
 import { calculatePercentage } from './common';
 
-export function formatNodeStats(nodesObj: any): any[] {
+/**
+ * Formats the circuit breakers of a node, keyed by breaker name.
+ */
+function formatBreakers(breakers: any): Record<string, any> {
+  return Object.entries(breakers ?? {}).reduce<Record<string, any>>((acc, [name, breaker]: any) => {
+    acc[name] = {
+      estimated: breaker.estimated_size_in_bytes,
+      limit: breaker.limit_size_in_bytes,
+      percent: calculatePercentage(breaker.estimated_size_in_bytes, breaker.limit_size_in_bytes),
+      tripped: breaker.tripped,
+    };
+    return acc;
+  }, {});
+}
+
+/**
+ * Formats the nodes stats. The optional nodes info (`_nodes/jvm`) adds the OpenSearch and JVM versions.
+ */
+export function formatNodeStats(nodesObj: any, nodesInfo: any = {}): any[] {
   return Object.entries(nodesObj).map(([id, node]: any) => {
     const usedMem = node.os.mem.used_in_bytes;
     const totalMem = node.os.mem.total_in_bytes;
@@ -12,12 +30,18 @@ export function formatNodeStats(nodesObj: any): any[] {
     const freeFs = node.fs.total.free_in_bytes;
     const usedFs = totalFs - freeFs;
 
+    const usedHeap = node.jvm?.mem?.heap_used_in_bytes ?? 0;
+    const maxHeap = node.jvm?.mem?.heap_max_in_bytes ?? 0;
+    const gc = node.jvm?.gc?.collectors ?? {};
+
     return {
       id,
       name: node.name,
       host: node.host,
       roles: node.roles,
       zone: node.attributes?.zone ?? null,
+      attributes: node.attributes ?? {},
+      version: nodesInfo[id]?.version ?? null,
       cpu: { percent: node.os.cpu.percent },
       mem: {
         total: totalMem,
@@ -34,6 +58,25 @@ export function formatNodeStats(nodesObj: any): any[] {
         used: usedFs,
         percent: calculatePercentage(usedFs, totalFs),
       },
+      jvm: {
+        version: nodesInfo[id]?.jvm?.version ?? null,
+        mem: {
+          total: maxHeap,
+          used: usedHeap,
+          percent: calculatePercentage(usedHeap, maxHeap),
+        },
+        gc: {
+          young: {
+            count: gc.young?.collection_count ?? 0,
+            time: gc.young?.collection_time_in_millis ?? 0,
+          },
+          old: {
+            count: gc.old?.collection_count ?? 0,
+            time: gc.old?.collection_time_in_millis ?? 0,
+          },
+        },
+      },
+      breakers: formatBreakers(node.breakers),
     };
   });
 }
@@ -0,0 +1,221 @@
+type Labels = Record<string, string | number | null | undefined>;
+type Sample = [Labels, number | null | undefined];
+
+/**
+ * Escapes a label value as required by the Prometheus text format.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([name, value]) => `${name}="${escapeLabel(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Renders a metric family (HELP and TYPE lines followed by its samples).
+ * Samples without a numeric value are skipped.
+ */
+function formatMetric(name: string, type: 'gauge' | 'counter', help: string, samples: Sample[]): string[] {
+  const lines = samples
+    .filter(([, value]) => typeof value === 'number' && Number.isFinite(value))
+    .map(([labels, value]) => `${name}${formatLabels(labels)} ${value}`);
+  if (lines.length === 0) return [];
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...lines];
+}
+
+/**
+ * Renders the cluster health, the formatted cluster stats and the formatted nodes stats
+ * in the Prometheus text exposition format.
+ */
+export function formatPrometheusMetrics(health: any, stats: any, nodes: any[]): string {
+  const cluster = { cluster: health?.cluster_name ?? stats?.cluster_name };
+
+  const nodeLabels = (node: any) => ({
+    ...cluster,
+    node: node.name,
+    node_id: node.id,
+    host: node.host,
+    zone: node.zone,
+  });
+  const perNode = (value: (node: any) => number | null | undefined, labels: Labels = {}): Sample[] =>
+    (nodes ?? []).map((node): Sample => [{ ...nodeLabels(node), ...labels }, value(node)]);
+  const perBreaker = (value: (breaker: any) => number): Sample[] =>
+    (nodes ?? []).flatMap((node) =>
+      Object.entries(node.breakers ?? {}).map(([breaker, breakerStats]): Sample => [
+        { ...nodeLabels(node), breaker },
+        value(breakerStats),
+      ])
+    );
+
+  const lines = [
+    // Cluster health
+    ...formatMetric(
+      'opensearch_cluster_status',
+      'gauge',
+      'Cluster health status, 1 for the current color.',
+      ['green', 'yellow', 'red'].map((color): Sample => [{ ...cluster, color }, health?.status === color ? 1 : 0])
+    ),
+    ...formatMetric('opensearch_cluster_nodes', 'gauge', 'Number of nodes in the cluster.', [
+      [cluster, health?.number_of_nodes],
+    ]),
+    ...formatMetric('opensearch_cluster_data_nodes', 'gauge', 'Number of data nodes in the cluster.', [
+      [cluster, health?.number_of_data_nodes],
+    ]),
+    ...formatMetric('opensearch_cluster_shards', 'gauge', 'Number of shards by state.', [
+      [{ ...cluster, state: 'active' }, health?.active_shards],
+      [{ ...cluster, state: 'relocating' }, health?.relocating_shards],
+      [{ ...cluster, state: 'initializing' }, health?.initializing_shards],
+      [{ ...cluster, state: 'unassigned' }, health?.unassigned_shards],
+    ]),
+    ...formatMetric('opensearch_cluster_active_primary_shards', 'gauge', 'Number of active primary shards.', [
+      [cluster, health?.active_primary_shards],
+    ]),
+    ...formatMetric('opensearch_cluster_pending_tasks', 'gauge', 'Number of pending cluster-level tasks.', [
+      [cluster, health?.number_of_pending_tasks],
+    ]),
+
+    // Cluster stats
+    ...formatMetric(
+      'opensearch_cluster_nodes_by_role',
+      'gauge',
+      'Number of nodes by role.',
+      Object.entries(stats?.nodes ?? {})
+        .filter(([role]) => role !== 'total')
+        .map(([role, count]): Sample => [{ ...cluster, role }, count as number])
+    ),
+    ...formatMetric('opensearch_cluster_indices', 'gauge', 'Number of indices.', [
+      [cluster, stats?.indices?.count],
+    ]),
+    ...formatMetric('opensearch_cluster_docs', 'gauge', 'Number of documents in the primary and replica shards.', [
+      [cluster, stats?.indices?.docs?.count],
+    ]),
+    ...formatMetric('opensearch_cluster_store_size_bytes', 'gauge', 'Size of the primary and replica shards.', [
+      [cluster, stats?.indices?.store?.size_in_bytes],
+    ]),
+    ...formatMetric('opensearch_cluster_fs_used_bytes', 'gauge', 'Disk space used on all nodes.', [
+      [cluster, stats?.fs?.used],
+    ]),
+    ...formatMetric('opensearch_cluster_fs_total_bytes', 'gauge', 'Disk space of all nodes.', [
+      [cluster, stats?.fs?.total],
+    ]),
+    ...formatMetric('opensearch_cluster_jvm_heap_used_bytes', 'gauge', 'JVM heap used on all nodes.', [
+      [cluster, stats?.jvm?.mem?.used],
+    ]),
+    ...formatMetric('opensearch_cluster_jvm_heap_max_bytes', 'gauge', 'JVM heap available on all nodes.', [
+      [cluster, stats?.jvm?.mem?.total],
+    ]),
+    ...formatMetric('opensearch_cluster_uptime_seconds', 'gauge', 'Uptime of the longest running node.', [
+      [cluster, typeof stats?.uptime === 'number' ? stats.uptime / 1000 : null],
+    ]),
+
+    // Nodes
+    ...formatMetric(
+      'opensearch_node_info',
+      'gauge',
+      'Versions of the node, always 1.',
+      (nodes ?? []).map((node): Sample => [
+        { ...nodeLabels(node), version: node.version, jvm_version: node.jvm?.version },
+        1,
+      ])
+    ),
+    ...formatMetric(
+      'opensearch_node_role',
+      'gauge',
+      'Roles of the node, 1 per role.',
+      (nodes ?? []).flatMap((node) =>
+        (node.roles ?? []).map((role: string): Sample => [{ ...nodeLabels(node), role }, 1])
+      )
+    ),
+    ...formatMetric(
+      'opensearch_node_cpu_percent',
+      'gauge',
+      'CPU usage of the node.',
+      perNode((node) => node.cpu?.percent)
+    ),
+    ...formatMetric(
+      'opensearch_node_memory_used_bytes',
+      'gauge',
+      'Memory used on the node.',
+      perNode((node) => node.mem?.used)
+    ),
+    ...formatMetric(
+      'opensearch_node_memory_total_bytes',
+      'gauge',
+      'Memory of the node.',
+      perNode((node) => node.mem?.total)
+    ),
+    ...formatMetric(
+      'opensearch_node_swap_used_bytes',
+      'gauge',
+      'Swap used on the node.',
+      perNode((node) => node.swap?.used)
+    ),
+    ...formatMetric(
+      'opensearch_node_swap_total_bytes',
+      'gauge',
+      'Swap of the node.',
+      perNode((node) => node.swap?.total)
+    ),
+    ...formatMetric(
+      'opensearch_node_fs_used_bytes',
+      'gauge',
+      'Disk space used on the node.',
+      perNode((node) => node.fs?.used)
+    ),
+    ...formatMetric(
+      'opensearch_node_fs_total_bytes',
+      'gauge',
+      'Disk space of the node.',
+      perNode((node) => node.fs?.total)
+    ),
+    ...formatMetric(
+      'opensearch_node_jvm_heap_used_bytes',
+      'gauge',
+      'JVM heap used on the node.',
+      perNode((node) => node.jvm?.mem?.used)
+    ),
+    ...formatMetric(
+      'opensearch_node_jvm_heap_max_bytes',
+      'gauge',
+      'JVM heap available on the node.',
+      perNode((node) => node.jvm?.mem?.total)
+    ),
+    ...formatMetric('opensearch_node_gc_collections_total', 'counter', 'Garbage collections by generation.', [
+      ...perNode((node) => node.jvm?.gc?.young?.count, { gc: 'young' }),
+      ...perNode((node) => node.jvm?.gc?.old?.count, { gc: 'old' }),
+    ]),
+    ...formatMetric(
+      'opensearch_node_gc_collection_seconds_total',
+      'counter',
+      'Time spent in garbage collections by generation.',
+      [
+        ...perNode((node) => node.jvm?.gc?.young?.time / 1000, { gc: 'young' }),
+        ...perNode((node) => node.jvm?.gc?.old?.time / 1000, { gc: 'old' }),
+      ]
+    ),
+    ...formatMetric(
+      'opensearch_node_breaker_estimated_bytes',
+      'gauge',
+      'Estimated memory used by the circuit breaker.',
+      perBreaker((breaker) => breaker.estimated)
+    ),
+    ...formatMetric(
+      'opensearch_node_breaker_limit_bytes',
+      'gauge',
+      'Memory limit of the circuit breaker.',
+      perBreaker((breaker) => breaker.limit)
+    ),
+    ...formatMetric(
+      'opensearch_node_breaker_tripped_total',
+      'counter',
+      'Number of times the circuit breaker tripped.',
+      perBreaker((breaker) => breaker.tripped)
+    ),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
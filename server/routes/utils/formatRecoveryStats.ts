@@ -32,6 +32,7 @@ export function formatRecoveryStats(rawData: any): any[] {
         bytes_percent:
           (indexSize.total_in_bytes ?? 0) === 0 ? '-' : indexSize.percent ?? '0%',
         bytes_total: indexSize.total_in_bytes ?? 0,
+        bytes_reused: indexSize.reused_in_bytes ?? 0,
         translog_recovered: transLog.recovered ?? 0,
         translog_percent:
           (transLog.total ?? 0) === 0 ? '-' : transLog.percent ?? '0%',
@@ -0,0 +1,19 @@
+export function formatShardStats(rawData: any[]): any[] {
+  return (rawData ?? []).map((shard: any) => {
+    // Relocating shards report their node as "source -> target_ip target_id target_name"
+    const [node, relocation] = (shard.node ?? '').split(' -> ');
+
+    return {
+      index: shard.index,
+      shard: Number(shard.shard),
+      primary: shard.prirep === 'p',
+      state: shard.state,
+      docs: Number(shard.docs) || 0,
+      store: Number(shard.store) || 0,
+      node: node || null,
+      relocating_node: relocation ? relocation.split(' ').pop() : null,
+      unassigned_reason: shard['unassigned.reason'] ?? null,
+      unassigned_at: shard['unassigned.at'] ?? null,
+    };
+  });
+}
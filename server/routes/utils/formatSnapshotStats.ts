@@ -0,0 +1,51 @@
+export function formatSnapshotRepositories(rawData: any): any[] {
+  return Object.entries(rawData ?? {}).map(([name, repository]: any) => ({
+    name,
+    type: repository.type,
+    location: repository.settings?.location ?? repository.settings?.bucket ?? null,
+  }));
+}
+
+/**
+ * Reads the size of each snapshot, keyed by snapshot uuid.
+ *
+ * @param statusData - Response of `_snapshot/{repository}/{snapshots}/_status`.
+ */
+export function formatSnapshotSizes(statusData: any): Record<string, number> {
+  return (statusData?.snapshots ?? []).reduce((acc: Record<string, number>, status: any) => {
+    acc[status.uuid] = status.stats?.total?.size_in_bytes ?? 0;
+    return acc;
+  }, {});
+}
+
+/**
+ * Formats the snapshots of a repository, most recent first.
+ *
+ * @param rawData - Response of `_snapshot/{repository}/_all`.
+ * @param sizes - Known snapshot sizes, keyed by snapshot uuid.
+ */
+export function formatSnapshotHistory(rawData: any, sizes: Record<string, number>): any[] {
+  return (rawData?.snapshots ?? [])
+    .map((snapshot: any) => ({
+      snapshot: snapshot.snapshot,
+      uuid: snapshot.uuid,
+      state: snapshot.state,
+      indices: (snapshot.indices ?? []).length,
+      start_time: snapshot.start_time_in_millis,
+      end_time: snapshot.end_time_in_millis ?? null,
+      duration: snapshot.duration_in_millis ?? 0,
+      size: sizes[snapshot.uuid] ?? null,
+      shards: {
+        total: snapshot.shards?.total ?? 0,
+        failed: snapshot.shards?.failed ?? 0,
+        successful: snapshot.shards?.successful ?? 0,
+      },
+      failures: (snapshot.failures ?? []).map((failure: any) => ({
+        index: failure.index,
+        shard: failure.shard_id,
+        node: failure.node_id ?? null,
+        reason: failure.reason,
+      })),
+    }))
+    .sort((a: any, b: any) => b.start_time - a.start_time);
+}
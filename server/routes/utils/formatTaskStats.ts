@@ -0,0 +1,63 @@
+export function formatPendingTasks(rawData: any): any[] {
+  return (rawData?.tasks ?? []).map((task: any) => ({
+    insert_order: task.insert_order,
+    priority: task.priority,
+    source: task.source,
+    executing: task.executing ?? false,
+    time_in_queue: task.time_in_queue_millis ?? 0,
+  }));
+}
+
+/**
+ * Task as listed by `_tasks?detailed`.
+ */
+interface RawTask {
+  action: string;
+  type: string;
+  description?: string;
+  start_time_in_millis: number;
+  running_time_in_nanos?: number;
+  cancellable?: boolean;
+  cancelled?: boolean;
+  parent_task_id?: string;
+}
+
+/**
+ * Node entry of the `_tasks` response, with its tasks keyed by task id.
+ */
+interface RawTaskNode {
+  name: string;
+  host: string;
+  tasks?: Record<string, RawTask>;
+}
+
+/**
+ * Flattens the `_tasks?detailed` response (grouped by nodes) into a list of tasks.
+ */
+export function formatTasks(rawData: any): any[] {
+  const parsedData: any[] = [];
+
+  const nodes: Record<string, RawTaskNode> = rawData?.nodes ?? {};
+
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    Object.entries(node.tasks ?? {}).forEach(([taskId, task]) => {
+      parsedData.push({
+        id: taskId,
+        node_id: nodeId,
+        node: node.name,
+        host: node.host,
+        action: task.action,
+        type: task.type,
+        description: task.description ?? '',
+        start_time: task.start_time_in_millis,
+        // Reported in nanoseconds
+        running_time: Math.round((task.running_time_in_nanos ?? 0) / 1e6),
+        cancellable: task.cancellable ?? false,
+        cancelled: task.cancelled ?? false,
+        parent_task_id: task.parent_task_id ?? null,
+      });
+    });
+  }
+
+  return parsedData;
+}
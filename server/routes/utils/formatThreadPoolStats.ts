@@ -0,0 +1,34 @@
+/**
+ * Formats per-node thread pool stats into one row per node and pool.
+ *
+ * @param nodesObj - `nodes` object of `_nodes/stats/thread_pool`.
+ * @param previous - Lifetime rejected counters of the previous sample, keyed by `nodeId/pool`.
+ */
+export function formatThreadPoolStats(nodesObj: any, previous: Record<string, number>): any[] {
+  const rows: any[] = [];
+
+  Object.entries(nodesObj).forEach(([id, node]: any) => {
+    Object.entries(node.thread_pool ?? {}).forEach(([pool, stats]: any) => {
+      const key = `${id}/${pool}`;
+      const rejected = stats.rejected ?? 0;
+
+      rows.push({
+        key,
+        node_id: id,
+        node: node.name,
+        pool,
+        threads: stats.threads ?? 0,
+        active: stats.active ?? 0,
+        queue: stats.queue ?? 0,
+        largest: stats.largest ?? 0,
+        completed: stats.completed ?? 0,
+        rejected,
+        // Counters reset when a node restarts, in which case the lifetime value is the delta
+        rejected_delta:
+          previous[key] === undefined ? 0 : rejected >= previous[key] ? rejected - previous[key] : rejected,
+      });
+    });
+  });
+
+  return rows;
+}
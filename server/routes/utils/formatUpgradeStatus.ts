@@ -0,0 +1,78 @@
+/**
+ * Compares two OpenSearch versions (e.g. "2.11.1"), ignoring any qualifier.
+ * Returns a negative number when a is older than b, a positive one when it is newer.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('-')[0].split('.').map(Number);
+  const partsB = b.split('-')[0].split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Formats the progress of a rolling upgrade from the nodes info (`_nodes/jvm`) and the formatted shards.
+ * The target version is the most recent version running in the cluster.
+ *
+ * Replicas are never allocated to a node older than their primary, so unassigned replicas whose
+ * primary already runs on an upgraded node are reported as stuck until more nodes are upgraded.
+ */
+export function formatUpgradeStatus(nodesObj: any, shards: any[]) {
+  const nodes = Object.entries(nodesObj ?? {})
+    .map(([id, node]: any) => ({
+      id,
+      name: node.name,
+      host: node.host,
+      version: node.version,
+      jvm_version: node.jvm?.version ?? null,
+    }))
+    .sort((a, b) => compareVersions(a.version, b.version) || a.name.localeCompare(b.name));
+
+  const versions = Array.from(new Set(nodes.map((node) => node.version))).sort(compareVersions);
+  const targetVersion = versions[versions.length - 1] ?? null;
+  const oldestVersion = versions[0] ?? null;
+
+  const versionByName = nodes.reduce<Record<string, string>>((acc, node) => {
+    acc[node.name] = node.version;
+    return acc;
+  }, {});
+  const primaryNodes = (shards ?? [])
+    .filter((shard) => shard.primary && shard.node)
+    .reduce<Record<string, string>>((acc, shard) => {
+      acc[`${shard.index}/${shard.shard}`] = shard.node;
+      return acc;
+    }, {});
+
+  const stuckReplicas =
+    versions.length > 1
+      ? (shards ?? [])
+          .filter((shard) => !shard.primary && shard.state === 'UNASSIGNED')
+          .map((shard) => {
+            const primaryNode = primaryNodes[`${shard.index}/${shard.shard}`] ?? null;
+            return {
+              index: shard.index,
+              shard: shard.shard,
+              primary_node: primaryNode,
+              primary_version: primaryNode ? versionByName[primaryNode] ?? null : null,
+            };
+          })
+          .filter(
+            (replica) =>
+              replica.primary_version && compareVersions(replica.primary_version, oldestVersion) > 0
+          )
+      : [];
+
+  return {
+    target_version: targetVersion,
+    versions: versions.map((version) => ({
+      version,
+      nodes: nodes.filter((node) => node.version === version).length,
+    })),
+    upgraded: nodes.filter((node) => node.version === targetVersion).length,
+    total: nodes.length,
+    nodes,
+    stuck_replicas: stuckReplicas,
+  };
+}
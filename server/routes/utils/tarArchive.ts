@@ -0,0 +1,67 @@
+import { gzipSync } from 'zlib';
+
+export interface ArchiveFile {
+  name: string;
+  content: string;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Writes a numeric header field as a zero-padded octal string.
+ */
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  header.write(value.toString(8).padStart(length - 1, '0'), offset, length - 1, 'ascii');
+}
+
+/**
+ * Splits a path into the ustar prefix (up to 155 bytes) and name (up to 100 bytes) fields.
+ */
+function splitPath(path: string): [string, string] {
+  if (Buffer.byteLength(path) <= 100) return ['', path];
+  const separator = path.lastIndexOf('/', 155);
+  if (separator <= 0 || Buffer.byteLength(path.slice(separator + 1)) > 100) {
+    throw new Error(`Path too long for a tar archive: ${path}`);
+  }
+  return [path.slice(0, separator), path.slice(separator + 1)];
+}
+
+/**
+ * Builds the ustar header of a regular file.
+ */
+function createHeader(path: string, size: number, mtime: number): Buffer {
+  const [prefix, name] = splitPath(path);
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(name, 0, 100, 'utf8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime / 1000), 136, 12);
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+  return header;
+}
+
+/**
+ * Creates a gzipped tar archive of text files.
+ */
+export function createTarGz(files: ArchiveFile[], mtime: number = Date.now()): Buffer {
+  const blocks: Buffer[] = [];
+  files.forEach(({ name, content }) => {
+    const data = Buffer.from(content, 'utf8');
+    blocks.push(createHeader(name, data.length, mtime), data);
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  });
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(blocks));
+}
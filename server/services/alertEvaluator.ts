@@ -0,0 +1,195 @@
+import { Logger, OpenSearchClient } from '../../../../src/core/server';
+import { formatNodeStats } from '../routes/utils/formatNodeStats';
+import { formatClusterStats } from '../routes/utils/formatClusterStats';
+
+export type AlertOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export interface AlertRule {
+  name: string;
+  scope: 'cluster' | 'node';
+  metric: string;
+  operator: AlertOperator;
+  value: number | string;
+  for: number;
+  severity: 'warning' | 'danger';
+}
+
+export interface AlertsConfig {
+  interval: number;
+  history_size: number;
+  rules: AlertRule[];
+}
+
+export interface Alert {
+  rule: string;
+  severity: AlertRule['severity'];
+  // Node name for node rules, cluster name for cluster rules
+  target: string;
+  condition: string;
+  value: number | string;
+  fired_at: number;
+  resolved_at?: number;
+}
+
+/**
+ * Reads a value from an object using a dot separated path (e.g. 'fs.percent').
+ */
+function getValue(obj: any, path: string): any {
+  return path.split('.').reduce((acc, key) => acc?.[key], obj);
+}
+
+function matches(actual: any, operator: AlertOperator, expected: number | string): boolean {
+  if (actual === undefined || actual === null) return false;
+
+  switch (operator) {
+    case '==':
+      return String(actual) === String(expected);
+    case '!=':
+      return String(actual) !== String(expected);
+    case '>':
+      return Number(actual) > Number(expected);
+    case '>=':
+      return Number(actual) >= Number(expected);
+    case '<':
+      return Number(actual) < Number(expected);
+    case '<=':
+      return Number(actual) <= Number(expected);
+  }
+}
+
+/**
+ * Periodically evaluates the configured threshold rules against the formatted stats
+ * and keeps track of active alerts and their fired/resolved history.
+ */
+export class AlertEvaluator {
+  private timer?: NodeJS.Timeout;
+  private rules: AlertRule[] = [];
+  private historySize = 0;
+  // Consecutive matching samples per rule/target
+  private breaches = new Map<string, number>();
+  private active = new Map<string, Alert>();
+  private history: Alert[] = [];
+
+  constructor(private readonly logger: Logger) {}
+
+  /**
+   * Starts the evaluation loop.
+   *
+   * @param client - OpenSearch client used for evaluation (internal user, no request scope).
+   * @param config - Alerts section of the plugin configuration.
+   */
+  public start(client: OpenSearchClient, config: AlertsConfig) {
+    this.rules = config?.rules ?? [];
+    this.historySize = config?.history_size ?? 0;
+
+    if (this.rules.length === 0) {
+      this.logger.debug('monitoring: no alert rules configured');
+      return;
+    }
+
+    this.evaluate(client);
+    this.timer = setInterval(() => this.evaluate(client), config.interval * 1000);
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  public getActive(): Alert[] {
+    return Array.from(this.active.values());
+  }
+
+  /**
+   * Returns the recent alert history, most recent first.
+   */
+  public getHistory(): Alert[] {
+    return [...this.history].reverse();
+  }
+
+  private async evaluate(client: OpenSearchClient) {
+    try {
+      const [healthResult, clusterResult, nodesResult] = await Promise.all([
+        client.transport.request({ method: 'GET', path: '/_cluster/health' }),
+        client.transport.request({ method: 'GET', path: '/_cluster/stats' }),
+        client.transport.request({ method: 'GET', path: '/_nodes/stats/fs,os,jvm,breaker' }),
+      ]);
+
+      const cluster = { ...formatClusterStats(clusterResult.body), ...healthResult.body };
+      const nodes = formatNodeStats(nodesResult.body?.nodes ?? {});
+
+      this.apply(cluster, nodes);
+    } catch (err) {
+      this.logger.warn(`monitoring: failed to evaluate alert rules: ${err}`);
+    }
+  }
+
+  private apply(cluster: any, nodes: any[]) {
+    const now = Date.now();
+    const seen = new Set<string>();
+
+    this.rules.forEach((rule) => {
+      const targets =
+        rule.scope === 'node'
+          ? nodes.map((node) => ({ name: node.name, stats: node }))
+          : [{ name: cluster.cluster_name, stats: cluster }];
+
+      targets.forEach(({ name, stats }) => {
+        const key = `${rule.name}:${name}`;
+        const value = getValue(stats, rule.metric);
+        seen.add(key);
+
+        if (!matches(value, rule.operator, rule.value)) {
+          this.breaches.delete(key);
+          this.resolve(key, now);
+          return;
+        }
+
+        const count = (this.breaches.get(key) ?? 0) + 1;
+        this.breaches.set(key, count);
+
+        const current = this.active.get(key);
+        if (current) {
+          current.value = value;
+        } else if (count >= rule.for) {
+          const alert: Alert = {
+            rule: rule.name,
+            severity: rule.severity,
+            target: name,
+            condition: `${rule.metric} ${rule.operator} ${rule.value}`,
+            value,
+            fired_at: now,
+          };
+          this.active.set(key, alert);
+          this.record(alert);
+          this.logger.warn(`monitoring: alert fired: ${rule.name} on ${name} (${alert.condition}, value ${value})`);
+        }
+      });
+    });
+
+    // Targets that disappeared (e.g. a node left the cluster) resolve their alerts
+    Array.from(new Set([...this.active.keys(), ...this.breaches.keys()]))
+      .filter((key) => !seen.has(key))
+      .forEach((key) => {
+        this.breaches.delete(key);
+        this.resolve(key, now);
+      });
+  }
+
+  private resolve(key: string, now: number) {
+    const alert = this.active.get(key);
+    if (!alert) return;
+
+    // The history holds the same object, so this also closes its history entry
+    alert.resolved_at = now;
+    this.active.delete(key);
+    this.logger.info(`monitoring: alert resolved: ${alert.rule} on ${alert.target}`);
+  }
+
+  private record(alert: Alert) {
+    this.history.push(alert);
+    if (this.history.length > this.historySize) {
+      this.history.splice(0, this.history.length - this.historySize);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { Logger, OpenSearchClient } from '../../../../src/core/server';
+import { formatNodeStats } from '../routes/utils/formatNodeStats';
+import { formatClusterStats } from '../routes/utils/formatClusterStats';
+import { calculatePercentage } from '../routes/utils/common';
+
+export interface HistoryConfig {
+  enabled: boolean;
+  interval: number;
+  size: number;
+}
+
+interface UsageSample {
+  used: number;
+  total: number;
+  percent: number;
+}
+
+export interface HistoryNodeSample {
+  id: string;
+  name: string;
+  cpu: number;
+  mem: number;
+  fs: number;
+  heap: number;
+}
+
+export interface HistorySample {
+  timestamp: number;
+  cluster: {
+    cpu: number;
+    mem: number;
+    fs: number;
+    heap: number;
+  };
+  nodes: HistoryNodeSample[];
+}
+
+/**
+ * Periodically samples node and cluster stats and keeps them in a bounded in-memory store.
+ */
+export class HistoryCollector {
+  private samples: HistorySample[] = [];
+  private timer?: NodeJS.Timeout;
+  private size = 0;
+
+  constructor(private readonly logger: Logger) {}
+
+  /**
+   * Starts the background collection loop.
+   *
+   * @param client - OpenSearch client used for sampling (internal user, no request scope).
+   * @param config - History section of the plugin configuration.
+   */
+  public start(client: OpenSearchClient, config: HistoryConfig) {
+    if (!config?.enabled) {
+      this.logger.info('monitoring: metrics history is disabled');
+      return;
+    }
+
+    this.size = config.size;
+    this.collect(client);
+    this.timer = setInterval(() => this.collect(client), config.interval * 1000);
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Returns the samples collected within the given time range (epoch millis, inclusive).
+   */
+  public getSamples(from?: number, to?: number): HistorySample[] {
+    return this.samples.filter(
+      (sample) =>
+        (from === undefined || sample.timestamp >= from) &&
+        (to === undefined || sample.timestamp <= to)
+    );
+  }
+
+  private async collect(client: OpenSearchClient) {
+    try {
+      const [nodesResult, clusterResult] = await Promise.all([
+        client.transport.request({ method: 'GET', path: '/_nodes/stats/fs,os,jvm' }),
+        client.transport.request({ method: 'GET', path: '/_cluster/stats' }),
+      ]);
+
+      this.push(
+        this.toSample(
+          formatNodeStats(nodesResult.body?.nodes ?? {}),
+          formatClusterStats(clusterResult.body)
+        )
+      );
+    } catch (err) {
+      this.logger.warn(`monitoring: failed to collect metrics history: ${err}`);
+    }
+  }
+
+  private toSample(nodes: any[], cluster: any): HistorySample {
+    const sum = (usage: UsageSample[], key: 'used' | 'total') =>
+      usage.reduce((acc, u) => acc + (u?.[key] ?? 0), 0);
+
+    const memUsage: UsageSample[] = nodes.map((node) => node.mem);
+    const cpuTotal = nodes.reduce((acc, node) => acc + (node.cpu?.percent ?? 0), 0);
+
+    return {
+      timestamp: Date.now(),
+      cluster: {
+        cpu: nodes.length ? Math.round((cpuTotal / nodes.length) * 100) / 100 : 0,
+        mem: calculatePercentage(sum(memUsage, 'used'), sum(memUsage, 'total')),
+        fs: cluster.fs.percent,
+        heap: cluster.jvm.mem.percent,
+      },
+      nodes: nodes.map((node) => ({
+        id: node.id,
+        name: node.name,
+        cpu: node.cpu.percent,
+        mem: node.mem.percent,
+        fs: node.fs.percent,
+        heap: node.jvm.mem.percent,
+      })),
+    };
+  }
+
+  private push(sample: HistorySample) {
+    this.samples.push(sample);
+    if (this.samples.length > this.size) {
+      this.samples.splice(0, this.samples.length - this.size);
+    }
+  }
+}
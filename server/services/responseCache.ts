@@ -0,0 +1,62 @@
+export interface CachedResponse<T> {
+  value: T;
+  // When the value was fetched from the cluster
+  timestamp: number;
+}
+
+/**
+ * Short-lived cache of cluster responses.
+ * Concurrent callers of the same key share a single in-flight request, and failures are not cached.
+ */
+export class ResponseCache {
+  // Each entry keeps its own TTL, so that long-lived entries are not pruned with the short-lived ones
+  private readonly entries = new Map<string, { response: CachedResponse<any>; ttl: number }>();
+  private readonly inFlight = new Map<string, Promise<CachedResponse<any>>>();
+
+  /**
+   * Returns the cached response of a key, or loads it when it is older than the TTL.
+   *
+   * @param key - Cache key (API, cluster and principal).
+   * @param ttl - Time to live in milliseconds (0 disables caching, in-flight requests are still shared).
+   * @param loader - Fetches the value from the cluster.
+   */
+  public async get<T>(key: string, ttl: number, loader: () => Promise<T>): Promise<CachedResponse<T>> {
+    const cached = this.entries.get(key);
+    if (cached && Date.now() - cached.response.timestamp < ttl) return cached.response;
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      const timestamp = Date.now();
+      const value = await loader();
+      const entry = { value, timestamp };
+      if (ttl > 0) {
+        this.prune();
+        this.entries.set(key, { response: entry, ttl });
+      }
+      return entry;
+    })();
+
+    this.inFlight.set(key, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Drops the expired entries, so that keys of users who left do not pile up.
+   */
+  private prune() {
+    const now = Date.now();
+    this.entries.forEach(({ response, ttl }, key) => {
+      if (now - response.timestamp >= ttl) this.entries.delete(key);
+    });
+  }
+
+  public clear() {
+    this.entries.clear();
+  }
+}
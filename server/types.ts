@@ -1,4 +1,20 @@
+import { OpenSearchDashboardsRequest } from '../../../src/core/server';
+import { ClusterHealth, ClusterNode, ClusterStats, ShardRecovery } from '../common';
+
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface MonitoringPluginSetup {}
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface MonitoringPluginStart {}
+
+/**
+ * Formatted data of the local cluster, read with the permissions of the user of a request.
+ * Errors of the OpenSearch client are thrown as is.
+ */
+export interface MonitoringScopedClient {
+  getClusterHealth(): Promise<ClusterHealth>;
+  getClusterStats(): Promise<ClusterStats>;
+  getNodeStats(): Promise<ClusterNode[]>;
+  getRecovery(): Promise<ShardRecovery[]>;
+}
+
+export interface MonitoringPluginStart {
+  asScoped(request: OpenSearchDashboardsRequest): MonitoringScopedClient;
+}